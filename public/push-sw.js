@@ -0,0 +1,63 @@
+/*
+ * VoTales push service worker.
+ *
+ * The API sends a JSON payload per notification:
+ *   { id, type, title?, message, relatedTaleId }
+ * Clicking the notification opens /tale/:relatedTaleId, reusing an open
+ * VoTales tab when there is one.
+ */
+
+const DEFAULT_TITLE = 'VoTales';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    payload = { message: event.data.text() };
+  }
+
+  const url = payload.relatedTaleId ? `/tale/${payload.relatedTaleId}` : '/notifications';
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || DEFAULT_TITLE, {
+      body: payload.message,
+      icon: '/favicon.svg',
+      badge: '/favicon.svg',
+      // One entry per tale: a newer notification about it replaces the last one
+      tag: payload.relatedTaleId || payload.id,
+      renotify: true,
+      data: { notificationId: payload.id, url },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const { notificationId, url } = event.notification.data || {};
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+
+      if (existing) {
+        // The app routes in-page, so hand it the link instead of reloading the tab
+        await existing.focus();
+        existing.postMessage({ type: 'notification-click', notificationId, url });
+        return;
+      }
+      await self.clients.openWindow(url || '/');
+    })()
+  );
+});
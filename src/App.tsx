@@ -8,9 +8,13 @@ import UpdatePasswordView from './components/UpdatePasswordView';
 import SearchView from './components/SearchView';
 import ProfileView from './components/ProfileView';
 import UserView from './components/UserView';
+import NotificationsView from './components/NotificationsView';
+import NotificationSettingsView from './components/NotificationSettingsView';
 import AboutView from './components/AboutView';
 import PrivacyView from './components/PrivacyView';
 import NotFoundView from './components/NotFoundView';
+import KeyboardShortcutsHelp from './components/KeyboardShortcutsHelp';
+import NotificationsProvider from './components/NotificationsProvider';
 import { ToastProvider } from './components/ui';
 import './App.css';
 
@@ -56,6 +60,8 @@ function AnimatedRoutes() {
           <Route path="/profile" element={<ProfileView />} />
           <Route path="/u/:identifier" element={<UserView />} />
           <Route path="/profile/:identifier" element={<UserView />} />
+          <Route path="/notifications" element={<NotificationsView />} />
+          <Route path="/settings/notifications" element={<NotificationSettingsView />} />
           <Route path="/about" element={<AboutView />} />
           <Route path="/privacy" element={<PrivacyView />} />
           <Route path="*" element={<NotFoundView />} />
@@ -70,7 +76,10 @@ function App() {
     <>
       <BrowserRouter>
         <ToastProvider>
-          <AnimatedRoutes />
+          <NotificationsProvider>
+            <AnimatedRoutes />
+            <KeyboardShortcutsHelp />
+          </NotificationsProvider>
         </ToastProvider>
       </BrowserRouter>
       <Analytics />
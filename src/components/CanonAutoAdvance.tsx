@@ -0,0 +1,102 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { Crown, FastForward, Pause } from 'lucide-react';
+import { GlassContainer } from './ui';
+
+interface CanonAutoAdvanceProps {
+  nextChapter: { id: string; label: string } | null;
+  onAdvance: (taleId: string) => void;
+  // Seconds to wait once the end of the chapter is in view
+  delaySeconds?: number;
+}
+
+// Sits at the end of a chapter in canon mode and moves on to the winning choice
+export default function CanonAutoAdvance({ nextChapter, onAdvance, delaySeconds = 5 }: CanonAutoAdvanceProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isInView, setIsInView] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(delaySeconds);
+  const [countdownFor, setCountdownFor] = useState(nextChapter?.id);
+
+  // A different winner (e.g. after a vote swing) gets a full countdown of its own
+  if (countdownFor !== nextChapter?.id) {
+    setCountdownFor(nextChapter?.id);
+    setSecondsLeft(delaySeconds);
+  }
+
+  // Start counting only once the reader has reached the end of the chapter
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => setIsInView(entry.isIntersecting),
+      { threshold: 0.6 }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!nextChapter || !isInView || isPaused) return;
+
+    if (secondsLeft <= 0) {
+      onAdvance(nextChapter.id);
+      return;
+    }
+
+    const timer = setTimeout(() => setSecondsLeft((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [nextChapter, isInView, isPaused, secondsLeft, onAdvance]);
+
+  return (
+    <motion.div
+      ref={containerRef}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-2xl mx-auto mt-8"
+    >
+      <GlassContainer className="p-6 border-amber-500/20 bg-amber-500/5">
+        {nextChapter ? (
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <p className="flex items-center gap-2 text-xs uppercase tracking-widest text-amber-400/80 mb-1">
+                <Crown className="w-3.5 h-3.5" />
+                Next in the canon
+              </p>
+              <p className="font-serif text-lg text-slate-200 truncate">{nextChapter.label}</p>
+              <p className="text-xs text-slate-500 mt-1">
+                {isPaused
+                  ? 'Auto-advance paused'
+                  : isInView
+                    ? `Continuing in ${secondsLeft}s...`
+                    : 'Continues automatically when you reach the end'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setIsPaused(!isPaused)}
+                className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+              >
+                <Pause className="w-4 h-4" />
+                {isPaused ? 'Resume' : 'Pause'}
+              </button>
+              <button
+                onClick={() => onAdvance(nextChapter.id)}
+                className="flex items-center gap-1.5 px-4 py-2 rounded-xl text-sm font-medium bg-amber-500/20 text-amber-300 border border-amber-500/30 hover:bg-amber-500/30 transition-colors"
+              >
+                <FastForward className="w-4 h-4" />
+                Continue now
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-center text-sm text-slate-400 font-serif italic">
+            <Crown className="w-4 h-4 inline-block mr-2 text-amber-400" />
+            The canon ends here. No continuation has won the readers' votes yet.
+          </p>
+        )}
+      </GlassContainer>
+    </motion.div>
+  );
+}
@@ -0,0 +1,94 @@
+import { motion } from 'framer-motion';
+import { Compass, Heart } from 'lucide-react';
+import type { TaleChoice } from '../services/api';
+import { GlassContainer } from './ui';
+
+interface ChoiceCardProps {
+  choice: TaleChoice;
+  index: number;
+  // Choices under an archived chapter can still be read but not voted on
+  isVotingDisabled?: boolean;
+  isVotePending?: boolean;
+  onSelect: (choiceId: string) => void;
+  onToggleVote: (choiceId: string, hasVoted: boolean) => void;
+}
+
+export default function ChoiceCard({
+  choice,
+  index,
+  isVotingDisabled = false,
+  isVotePending = false,
+  onSelect,
+  onToggleVote,
+}: ChoiceCardProps) {
+  const hasVoted = !!choice.hasVoted;
+
+  return (
+    <GlassContainer
+      blur="md"
+      className="relative flex flex-col p-6 h-full overflow-hidden group bg-slate-900/60 border-white/5 hover:border-violet-500/30 hover:bg-slate-800/60 transition-all duration-300"
+    >
+      {/* The whole card opens the choice; the vote button sits above this overlay */}
+      <button
+        onClick={() => onSelect(choice.id)}
+        className="w-full text-left after:absolute after:inset-0 after:rounded-2xl after:content-[''] focus:outline-none focus-visible:after:ring-2 focus-visible:after:ring-violet-500/50"
+      >
+        {choice.childCount === 0 && (
+          <p className="flex items-center gap-1.5 mb-2 text-[10px] uppercase tracking-widest text-amber-400/80">
+            <Compass className="w-3 h-3" />
+            Unexplored
+          </p>
+        )}
+
+        {/* Choice Title - Primary Action Header */}
+        <h3 className="font-bold text-lg text-violet-200 mb-2 line-clamp-2 group-hover:text-violet-100 transition-colors">
+          {choice.title || `Option ${index + 1}`}
+        </h3>
+
+        {/* Preview Text - Secondary Body */}
+        <p className="text-sm text-slate-400 leading-relaxed mb-4 line-clamp-2">
+          {choice.previewText || 'Continue reading...'}
+        </p>
+      </button>
+
+      {/* Vote Count */}
+      <div className="mt-auto flex items-center justify-between">
+        <motion.button
+          onClick={() => onToggleVote(choice.id, hasVoted)}
+          disabled={isVotingDisabled || isVotePending}
+          whileTap={!isVotingDisabled ? { scale: 1.2 } : undefined}
+          aria-pressed={hasVoted}
+          className={`relative z-10 flex items-center gap-2 -ml-2 px-2 py-1 rounded-lg text-sm font-sans transition-colors ${
+            isVotingDisabled
+              ? 'text-slate-600 cursor-not-allowed'
+              : hasVoted
+                ? 'text-amber-400 hover:bg-amber-500/10'
+                : 'text-slate-500 hover:text-amber-400 hover:bg-amber-500/10'
+          } disabled:cursor-default`}
+          title={
+            isVotingDisabled
+              ? 'Cannot vote on archived content'
+              : hasVoted
+                ? 'Remove your vote'
+                : 'Vote for this choice'
+          }
+        >
+          <Heart className="w-4 h-4" fill={hasVoted ? 'currentColor' : 'none'} />
+          <span>
+            {choice.votes} {choice.votes === 1 ? 'vote' : 'votes'}
+          </span>
+        </motion.button>
+
+        {/* Arrow indicator, with the choice's keyboard shortcut */}
+        <div className="flex items-center gap-2 text-slate-600 group-hover:text-violet-400 transition-all">
+          {index < 9 && (
+            <kbd className="hidden md:inline px-1.5 rounded border border-white/10 text-[10px] font-mono text-slate-500">
+              {index + 1}
+            </kbd>
+          )}
+          <span className="inline-block group-hover:translate-x-1 transition-transform">→</span>
+        </div>
+      </div>
+    </GlassContainer>
+  );
+}
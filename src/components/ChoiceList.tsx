@@ -0,0 +1,103 @@
+import { motion } from 'framer-motion';
+import { Loader2 } from 'lucide-react';
+import type { TaleChoice } from '../services/api';
+import { useWindowedGrid } from '../hooks/useWindowedGrid';
+import { useLoadMoreOnScroll } from '../hooks/useLoadMoreOnScroll';
+import ChoiceCard from './ChoiceCard';
+
+interface ChoiceListProps {
+  choices: TaleChoice[];
+  totalCount: number;
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  // Stops automatic loading after a failed page; the button retries
+  hasLoadMoreError?: boolean;
+  onLoadMore: () => void;
+  isVotingDisabled?: boolean;
+  // Choice whose vote request is in flight
+  pendingVoteId?: string;
+  onSelect: (choiceId: string) => void;
+  onToggleVote: (choiceId: string, hasVoted: boolean) => void;
+}
+
+// Cards have a fixed height so rows can be windowed without measuring
+const CARD_HEIGHT = 232;
+const ROW_GAP = 16;
+
+// Virtualized two-column grid of choices that loads further pages as the reader scrolls
+export default function ChoiceList({
+  choices,
+  totalCount,
+  hasNextPage,
+  isFetchingNextPage,
+  hasLoadMoreError = false,
+  onLoadMore,
+  isVotingDisabled = false,
+  pendingVoteId,
+  onSelect,
+  onToggleVote,
+}: ChoiceListProps) {
+  const { containerRef, items, columns, totalHeight } = useWindowedGrid({
+    itemCount: choices.length,
+    rowHeight: CARD_HEIGHT + ROW_GAP,
+  });
+  const sentinelRef = useLoadMoreOnScroll(onLoadMore, hasNextPage && !isFetchingNextPage && !hasLoadMoreError);
+
+  return (
+    <>
+      <div ref={containerRef} className="relative" style={{ height: Math.max(0, totalHeight - ROW_GAP) }}>
+        {items.map(({ index, top, column }) => {
+          const choice = choices[index];
+          return (
+            <motion.div
+              key={choice.id}
+              layout="position"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ type: 'spring', stiffness: 120, damping: 18 }}
+              className="absolute"
+              style={{
+                top,
+                height: CARD_HEIGHT,
+                left: columns === 2 ? (column === 0 ? 0 : `calc(50% + ${ROW_GAP / 2}px)`) : 0,
+                width: columns === 2 ? `calc(50% - ${ROW_GAP / 2}px)` : '100%',
+              }}
+            >
+              <ChoiceCard
+                choice={choice}
+                index={index}
+                isVotingDisabled={isVotingDisabled}
+                isVotePending={pendingVoteId === choice.id}
+                onSelect={onSelect}
+                onToggleVote={onToggleVote}
+              />
+            </motion.div>
+          );
+        })}
+      </div>
+
+      {/* Infinite scroll sentinel; the button below is the manual fallback */}
+      <div ref={sentinelRef} aria-hidden="true" />
+      {isFetchingNextPage ? (
+        <div className="flex items-center justify-center gap-2 mt-6 text-sm text-violet-300/80">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading more choices...
+        </div>
+      ) : (
+        hasNextPage && (
+          <div className="flex justify-center mt-6">
+            <button
+              onClick={onLoadMore}
+              className="flex items-center gap-2 px-5 py-2.5 rounded-xl bg-violet-600/20 hover:bg-violet-600/30 border border-violet-500/30 text-violet-300 hover:text-violet-200 text-sm font-medium transition-all"
+            >
+              Show more options...
+              <span className="text-violet-400/70">
+                ({choices.length} of {totalCount})
+              </span>
+            </button>
+          </div>
+        )
+      )}
+    </>
+  );
+}
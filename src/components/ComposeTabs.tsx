@@ -0,0 +1,41 @@
+import { Eye, PenLine } from 'lucide-react';
+
+export type ComposeMode = 'write' | 'preview';
+
+interface ComposeTabsProps {
+  mode: ComposeMode;
+  onChange: (mode: ComposeMode) => void;
+}
+
+// Write / Preview toggle shown above chapter editors, with a formatting cheat sheet
+export default function ComposeTabs({ mode, onChange }: ComposeTabsProps) {
+  const tabs = [
+    { value: 'write' as const, label: 'Write', icon: PenLine },
+    { value: 'preview' as const, label: 'Preview', icon: Eye },
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+      <div className="flex items-center gap-1 p-1 bg-slate-800/50 rounded-lg border border-slate-700/50">
+        {tabs.map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onChange(value)}
+            className={`flex items-center gap-1.5 px-3 py-1 rounded-md text-xs font-medium transition-all ${
+              mode === value
+                ? 'bg-violet-600 text-white shadow-lg shadow-violet-500/25'
+                : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/50'
+            }`}
+          >
+            <Icon className="w-3.5 h-3.5" />
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500 font-mono">
+        **bold** · *italic* · &gt; quote · *** scene break
+      </p>
+    </div>
+  );
+}
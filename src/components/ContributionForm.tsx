@@ -4,6 +4,11 @@ import { useQueryClient } from '@tanstack/react-query';
 import { LogIn, Send, Feather } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { createTale } from '../services/api';
+import { ValidationError, getErrorMessage } from '../services/apiErrors';
+import { useDraftAutosave } from '../hooks/useDraftAutosave';
+import DraftRestorePrompt from './DraftRestorePrompt';
+import ComposeTabs, { type ComposeMode } from './ComposeTabs';
+import RichText from './RichText';
 import type { User } from '@supabase/supabase-js';
 
 interface ContributionFormProps {
@@ -19,7 +24,23 @@ export default function ContributionForm({ parentTaleId, onSuccess }: Contributi
   const [loading, setLoading] = useState(false);
   const [checkingAuth, setCheckingAuth] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({});
   const [success, setSuccess] = useState(false);
+  const [composeMode, setComposeMode] = useState<ComposeMode>('write');
+  const { pendingDraft, restoreDraft, discardDraft, clearSavedDraft } = useDraftAutosave({
+    userId: user?.id ?? null,
+    parentTaleId,
+    title,
+    content,
+  });
+
+  const handleRestoreDraft = () => {
+    const draft = restoreDraft();
+    if (draft) {
+      setTitle(draft.title);
+      setContent(draft.content);
+    }
+  };
 
   useEffect(() => {
     const checkSession = async () => {
@@ -56,6 +77,7 @@ export default function ContributionForm({ parentTaleId, onSuccess }: Contributi
 
     setLoading(true);
     setError(null);
+    setFieldErrors({});
 
     try {
       const newTale = await createTale({
@@ -67,10 +89,13 @@ export default function ContributionForm({ parentTaleId, onSuccess }: Contributi
       
       // Invalidate relevant queries to refresh the data
       queryClient.invalidateQueries({ queryKey: ['tale', parentTaleId] });
+      queryClient.invalidateQueries({ queryKey: ['taleChoices', parentTaleId] });
       queryClient.invalidateQueries({ queryKey: ['storyMap'] });
       
+      clearSavedDraft();
       setTitle('');
       setContent('');
+      setComposeMode('write');
       setSuccess(true);
       
       if (onSuccess) {
@@ -80,7 +105,10 @@ export default function ContributionForm({ parentTaleId, onSuccess }: Contributi
       // Reset success message after 3 seconds
       setTimeout(() => setSuccess(false), 3000);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to submit contribution');
+      if (err instanceof ValidationError) {
+        setFieldErrors(err.fieldErrors);
+      }
+      setError(getErrorMessage(err, 'Failed to submit contribution'));
     } finally {
       setLoading(false);
     }
@@ -117,6 +145,14 @@ export default function ContributionForm({ parentTaleId, onSuccess }: Contributi
   // User is logged in - show contribution form
   return (
     <form onSubmit={handleSubmit}>
+      {pendingDraft && (
+        <DraftRestorePrompt
+          draft={pendingDraft}
+          onRestore={handleRestoreDraft}
+          onDiscard={discardDraft}
+        />
+      )}
+
       <div className="mb-4">
         <label className="block text-sm font-medium text-violet-300 mb-2">
           Choice Action <span className="text-red-400">*</span>
@@ -129,15 +165,32 @@ export default function ContributionForm({ parentTaleId, onSuccess }: Contributi
           required
           className="w-full px-4 py-3 bg-slate-800/50 border border-white/10 rounded-xl focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 font-serif text-slate-200 placeholder:text-slate-600 transition-all"
         />
+        {fieldErrors.title && (
+          <p className="mt-2 text-sm text-red-400">{fieldErrors.title.join(' ')}</p>
+        )}
       </div>
 
-      <textarea
-        value={content}
-        onChange={(e) => setContent(e.target.value)}
-        placeholder="Continue the story in your own words..."
-        rows={6}
-        className="w-full px-4 py-4 bg-slate-800/50 border border-white/10 rounded-xl focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 resize-none font-serif text-slate-200 placeholder:text-slate-600 mb-4 transition-all"
-      />
+      <ComposeTabs mode={composeMode} onChange={setComposeMode} />
+      {composeMode === 'write' ? (
+        <textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          placeholder="Continue the story in your own words..."
+          rows={6}
+          className="w-full px-4 py-4 bg-slate-800/50 border border-white/10 rounded-xl focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 resize-none font-serif text-slate-200 placeholder:text-slate-600 mb-4 transition-all"
+        />
+      ) : (
+        <div className="min-h-[10rem] px-4 py-4 bg-slate-800/30 border border-white/10 rounded-xl mb-4">
+          {content.trim() ? (
+            <RichText content={content} className="font-serif text-slate-200 leading-relaxed space-y-4" />
+          ) : (
+            <p className="font-serif text-slate-600">Nothing to preview yet.</p>
+          )}
+        </div>
+      )}
+      {fieldErrors.content && (
+        <p className="-mt-2 mb-4 text-sm text-red-400">{fieldErrors.content.join(' ')}</p>
+      )}
 
       {error && (
         <div className="mb-4 p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">
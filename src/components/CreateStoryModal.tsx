@@ -2,7 +2,12 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { createTale } from '../services/api';
+import { ValidationError, getErrorMessage } from '../services/apiErrors';
 import { Modal, Button, Input, Textarea } from './ui';
+import { useDraftAutosave } from '../hooks/useDraftAutosave';
+import DraftRestorePrompt from './DraftRestorePrompt';
+import ComposeTabs, { type ComposeMode } from './ComposeTabs';
+import RichText from './RichText';
 import type { User } from '@supabase/supabase-js';
 
 interface CreateStoryModalProps {
@@ -17,6 +22,23 @@ export default function CreateStoryModal({ isOpen, onClose }: CreateStoryModalPr
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({});
+  const [composeMode, setComposeMode] = useState<ComposeMode>('write');
+  const { pendingDraft, restoreDraft, discardDraft, clearSavedDraft } = useDraftAutosave({
+    userId: user?.id ?? null,
+    parentTaleId: null,
+    title,
+    content,
+    enabled: isOpen,
+  });
+
+  const handleRestoreDraft = () => {
+    const draft = restoreDraft();
+    if (draft) {
+      setTitle(draft.title);
+      setContent(draft.content);
+    }
+  };
 
   useEffect(() => {
     const checkSession = async () => {
@@ -49,6 +71,7 @@ export default function CreateStoryModal({ isOpen, onClose }: CreateStoryModalPr
 
     setLoading(true);
     setError(null);
+    setFieldErrors({});
 
     try {
       const result = await createTale({
@@ -58,12 +81,17 @@ export default function CreateStoryModal({ isOpen, onClose }: CreateStoryModalPr
         title: title.trim(),
       });
       
+      clearSavedDraft();
       onClose();
       setTitle('');
       setContent('');
+      setComposeMode('write');
       navigate(`/tale/${result.id}`);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create story');
+      if (err instanceof ValidationError) {
+        setFieldErrors(err.fieldErrors);
+      }
+      setError(getErrorMessage(err, 'Failed to create story'));
     } finally {
       setLoading(false);
     }
@@ -77,25 +105,48 @@ export default function CreateStoryModal({ isOpen, onClose }: CreateStoryModalPr
       size="lg"
     >
       <form onSubmit={handleSubmit} className="p-6">
+        {pendingDraft && (
+          <DraftRestorePrompt
+            draft={pendingDraft}
+            onRestore={handleRestoreDraft}
+            onDiscard={discardDraft}
+          />
+        )}
+
         <div className="mb-4">
           <Input
             label="Story Title"
             value={title}
             onChange={(e) => setTitle(e.target.value)}
             placeholder="Enter your story title..."
+            error={fieldErrors.title?.join(' ')}
             required
           />
         </div>
 
         <div className="mb-6">
-          <Textarea
-            label="Write the first chapter of your story"
-            value={content}
-            onChange={(e) => setContent(e.target.value)}
-            placeholder="Once upon a time..."
-            rows={10}
-            className="font-serif"
-          />
+          <label className="block text-sm font-medium text-slate-300 mb-2">
+            Write the first chapter of your story
+          </label>
+          <ComposeTabs mode={composeMode} onChange={setComposeMode} />
+          {composeMode === 'write' ? (
+            <Textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              placeholder="Once upon a time..."
+              rows={10}
+              error={fieldErrors.content?.join(' ')}
+              className="font-serif"
+            />
+          ) : (
+            <div className="min-h-[150px] px-4 py-3 rounded-xl bg-white/5 border border-white/10">
+              {content.trim() ? (
+                <RichText content={content} className="font-serif text-slate-200 leading-relaxed space-y-4" />
+              ) : (
+                <p className="font-serif text-slate-500">Nothing to preview yet.</p>
+              )}
+            </div>
+          )}
         </div>
 
         {error && (
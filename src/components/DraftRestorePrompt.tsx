@@ -0,0 +1,66 @@
+import { motion } from 'framer-motion';
+import { FileClock, RotateCcw, Trash2 } from 'lucide-react';
+import type { Draft } from '../lib/drafts';
+
+interface DraftRestorePromptProps {
+  draft: Draft;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+// Helper to format the last-edited time
+const formatUpdatedAt = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+export default function DraftRestorePrompt({ draft, onRestore, onDiscard }: DraftRestorePromptProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-4 p-4 rounded-xl bg-violet-500/10 border border-violet-500/30"
+    >
+      <div className="flex items-start gap-3">
+        <FileClock className="w-5 h-5 text-violet-400 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-slate-200">
+            You have an unsaved draft
+            {draft.title && (
+              <>
+                {' '}
+                <span className="text-violet-300 font-medium">"{draft.title}"</span>
+              </>
+            )}
+          </p>
+          <p className="text-xs text-slate-500 mt-1">
+            Last edited {formatUpdatedAt(draft.updatedAt)}
+          </p>
+        </div>
+      </div>
+      <div className="flex justify-end gap-2 mt-3">
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-slate-400 hover:text-red-300 hover:bg-red-500/10 transition-colors"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+          Discard
+        </button>
+        <button
+          type="button"
+          onClick={onRestore}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium bg-violet-600 hover:bg-violet-500 text-white transition-colors"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+          Restore draft
+        </button>
+      </div>
+    </motion.div>
+  );
+}
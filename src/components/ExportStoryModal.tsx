@@ -0,0 +1,176 @@
+import { useState, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { BookOpen, Crown, Download, FileText, GitBranch, Hash, Loader2 } from 'lucide-react';
+import { getStoryMap, type StoryMapResponse } from '../services/api';
+import { taleQueryOptions } from '../lib/taleQueries';
+import { getErrorMessage } from '../services/apiErrors';
+import { getBranchPath, getCanonPath, getPathToTale } from '../lib/storyPath';
+import { downloadStory, type StoryExportFormat, type StoryExportSource } from '../lib/storyExport';
+import { Button, Modal, useToast } from './ui';
+
+interface ExportStoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Map already loaded by the reader; may only be a window around the chapter
+  storyMap: StoryMapResponse | null;
+  currentTaleId: string;
+  source: StoryExportSource;
+  onSourceChange: (source: StoryExportSource) => void;
+}
+
+const SOURCE_OPTIONS: { value: StoryExportSource; label: string; description: string; icon: typeof GitBranch }[] = [
+  {
+    value: 'current',
+    label: 'This branch',
+    description: 'From the first chapter through this one, continuing to an ending.',
+    icon: GitBranch,
+  },
+  {
+    value: 'golden',
+    label: 'The canon',
+    description: "The golden path: the readers' most-voted choice at every chapter.",
+    icon: Crown,
+  },
+];
+
+const FORMAT_OPTIONS: { value: StoryExportFormat; label: string; icon: typeof BookOpen }[] = [
+  { value: 'epub', label: 'EPUB', icon: BookOpen },
+  { value: 'markdown', label: 'Markdown', icon: Hash },
+  { value: 'txt', label: 'Plain text', icon: FileText },
+];
+
+export default function ExportStoryModal({
+  isOpen,
+  onClose,
+  storyMap: loadedMap,
+  currentTaleId,
+  source,
+  onSourceChange,
+}: ExportStoryModalProps) {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+  const [format, setFormat] = useState<StoryExportFormat>('epub');
+
+  // Paths run all the way to an ending, so exports need the whole map rather than a window
+  const { data: fullMap, isLoading: isMapLoading } = useQuery({
+    queryKey: ['storyMap', currentTaleId, 'full'],
+    queryFn: () => getStoryMap(currentTaleId),
+    enabled: isOpen,
+  });
+  const storyMap = fullMap ?? loadedMap;
+
+  // Chapter ids to export, root first
+  const chapterIds = useMemo(() => {
+    if (!storyMap) return [currentTaleId];
+    if (source === 'current') return getBranchPath(storyMap.edges, currentTaleId);
+    const rootId = getPathToTale(storyMap.edges, currentTaleId)[0];
+    return getCanonPath(storyMap.edges, rootId);
+  }, [storyMap, currentTaleId, source]);
+
+  const chapterLabels = useMemo(() => {
+    const labels = new Map(storyMap?.nodes.map((node) => [node.id, node.label]));
+    return chapterIds.map((taleId) => labels.get(taleId) || 'Untitled');
+  }, [storyMap, chapterIds]);
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      // Chapters the reader has already opened come straight from the cache
+      const chapters = await Promise.all(
+        chapterIds.map((taleId) =>
+          queryClient.ensureQueryData(taleQueryOptions(taleId))
+        )
+      );
+      const storyTitle = chapters[0]?.title || 'Untitled Tale';
+      downloadStory(storyTitle, chapters, format, source === 'golden' ? '-canon' : '');
+    },
+    onSuccess: () => {
+      addToast('Your story is downloading.', 'success');
+      onClose();
+    },
+    onError: (error) => {
+      console.error('Failed to export story:', error);
+      addToast(getErrorMessage(error, 'Could not export the story. Please try again.'), 'error');
+    },
+  });
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Export Story" size="md">
+      <div className="p-6 space-y-6">
+        {/* Source */}
+        <div className="space-y-2">
+          <p className="text-xs uppercase tracking-widest text-slate-500">Chapters</p>
+          {SOURCE_OPTIONS.map(({ value, label, description, icon: Icon }) => (
+            <button
+              key={value}
+              onClick={() => onSourceChange(value)}
+              className={`w-full flex items-start gap-3 p-3 rounded-xl border text-left transition-colors ${
+                source === value
+                  ? 'border-violet-500/50 bg-violet-500/10'
+                  : 'border-white/10 hover:border-white/20 hover:bg-white/5'
+              }`}
+            >
+              <Icon className={`w-5 h-5 mt-0.5 flex-shrink-0 ${value === 'golden' ? 'text-amber-400' : 'text-violet-400'}`} />
+              <div>
+                <p className="text-sm font-medium text-white">{label}</p>
+                <p className="text-xs text-slate-400">{description}</p>
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {/* Format */}
+        <div className="space-y-2">
+          <p className="text-xs uppercase tracking-widest text-slate-500">Format</p>
+          <div className="grid grid-cols-3 gap-2">
+            {FORMAT_OPTIONS.map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                onClick={() => setFormat(value)}
+                className={`flex flex-col items-center gap-1.5 p-3 rounded-xl border text-sm transition-colors ${
+                  format === value
+                    ? 'border-violet-500/50 bg-violet-500/10 text-white'
+                    : 'border-white/10 text-slate-400 hover:border-white/20 hover:text-white'
+                }`}
+              >
+                <Icon className="w-5 h-5" />
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Table of contents preview */}
+        <div className="space-y-2">
+          <p className="text-xs uppercase tracking-widest text-slate-500">
+            Contents · {chapterIds.length} {chapterIds.length === 1 ? 'chapter' : 'chapters'}
+          </p>
+          <ol className="max-h-40 overflow-y-auto space-y-1 rounded-xl bg-slate-800/40 p-3 text-sm">
+            {chapterLabels.map((label, index) => (
+              <li
+                key={chapterIds[index]}
+                className={`truncate ${chapterIds[index] === currentTaleId ? 'text-violet-300' : 'text-slate-400'}`}
+              >
+                <span className="text-slate-600 mr-2">{index + 1}.</span>
+                {label}
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <Button
+          variant="primary"
+          className="w-full"
+          onClick={() => exportMutation.mutate()}
+          disabled={exportMutation.isPending || isMapLoading}
+        >
+          {exportMutation.isPending || isMapLoading ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4 mr-2" />
+          )}
+          Download
+        </Button>
+      </div>
+    </Modal>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useInfiniteQuery } from '@tanstack/react-query';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { fetchRoots, type SortOption } from '../services/api';
 import { supabase } from '../lib/supabase';
@@ -197,10 +197,24 @@ const itemVariants = {
 export default function HomeView() {
   const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
-  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Opened directly when continuing a new-story draft from the profile page
+  const [isModalOpen, setIsModalOpen] = useState(() => searchParams.get('newStory') === '1');
   const [sortBy, setSortBy] = useState<SortOption>('votes');
   const [isFeedbackOpen, setIsFeedbackOpen] = useState(false);
 
+  // The flag is one-shot: drop it so a reload or shared link doesn't reopen the modal
+  useEffect(() => {
+    if (!searchParams.has('newStory')) return;
+    setSearchParams(
+      (params) => {
+        params.delete('newStory');
+        return params;
+      },
+      { replace: true }
+    );
+  }, [searchParams, setSearchParams]);
+
   useEffect(() => {
     const checkSession = async () => {
       const { data: { session } } = await supabase.auth.getSession();
@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import { Keyboard } from 'lucide-react';
+import { SHORTCUT_GROUPS } from '../lib/keyboardShortcuts';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { Modal } from './ui';
+
+// Global `?` overlay listing every keyboard shortcut
+export default function KeyboardShortcutsHelp() {
+  const [isOpen, setIsOpen] = useState(false);
+
+  useKeyboardShortcuts({ '?': () => setIsOpen(true) });
+
+  return (
+    <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title="Keyboard Shortcuts" size="sm">
+      <div className="p-6 space-y-6">
+        {SHORTCUT_GROUPS.map((group) => (
+          <section key={group.title}>
+            <h3 className="text-xs uppercase tracking-widest text-slate-500 mb-3">{group.title}</h3>
+            <ul className="space-y-2">
+              {group.shortcuts.map((shortcut) => (
+                <li key={shortcut.description} className="flex items-center justify-between gap-4 text-sm">
+                  <span className="text-slate-300">{shortcut.description}</span>
+                  <span className="flex items-center gap-1 flex-shrink-0">
+                    {shortcut.keys.map((key) =>
+                      key === '–' ? (
+                        <span key={key} className="text-slate-600">–</span>
+                      ) : (
+                        <kbd
+                          key={key}
+                          className="min-w-[1.75rem] px-2 py-1 rounded-md bg-slate-800 border border-white/10 text-xs font-mono text-slate-200 text-center"
+                        >
+                          {key}
+                        </kbd>
+                      )
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))}
+        <p className="flex items-center gap-2 text-xs text-slate-500">
+          <Keyboard className="w-3.5 h-3.5" />
+          Shortcuts are paused while you're typing.
+        </p>
+      </div>
+    </Modal>
+  );
+}
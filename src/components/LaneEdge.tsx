@@ -0,0 +1,21 @@
+import { memo } from 'react';
+import { BaseEdge, type EdgeProps } from 'reactflow';
+
+// Height of the curve where a branch leaves its parent's lane
+const BRANCH_CURVE_HEIGHT = 16;
+
+// `git log --graph` style edge: straight down a lane, or curving off into a new
+// lane right below the parent and then running straight down to the child
+const LaneEdge = memo(({ id, sourceX, sourceY, targetX, targetY, style, markerEnd }: EdgeProps) => {
+  const curveEndY = Math.min(sourceY + BRANCH_CURVE_HEIGHT, targetY);
+  const path =
+    sourceX === targetX
+      ? `M ${sourceX},${sourceY} L ${targetX},${targetY}`
+      : `M ${sourceX},${sourceY} C ${sourceX},${curveEndY} ${targetX},${sourceY} ${targetX},${curveEndY} L ${targetX},${targetY}`;
+
+  return <BaseEdge id={id} path={path} style={style} markerEnd={markerEnd} />;
+});
+
+LaneEdge.displayName = 'LaneEdge';
+
+export default LaneEdge;
@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Braces, Download, FileCode, Image as ImageIcon, Loader2, Share2 } from 'lucide-react';
+import type { StoryMapResponse } from '../services/api';
+import type { MapLayout } from '../lib/mapLayout';
+import { downloadStoryMap, type MapExportFormat, type StoryMapView } from '../lib/mapExport';
+import { useToast } from './ui';
+
+interface MapExportMenuProps {
+  mapData: StoryMapResponse;
+  layout: MapLayout;
+  // The graph as currently shown, read when an image is exported
+  getView: () => StoryMapView;
+}
+
+const EXPORT_OPTIONS: { value: MapExportFormat; label: string; description: string; icon: typeof ImageIcon }[] = [
+  { value: 'png', label: 'PNG image', description: 'The map as shown', icon: ImageIcon },
+  { value: 'svg', label: 'SVG image', description: 'Scalable, editable vector', icon: FileCode },
+  { value: 'json', label: 'JSON', description: 'Raw story map data', icon: Braces },
+  { value: 'graphml', label: 'GraphML', description: 'Votes and golden path, for graph tools', icon: Share2 },
+];
+
+// Header dropdown that downloads the story map as an image or as data
+export default function MapExportMenu({ mapData, layout, getView }: MapExportMenuProps) {
+  const { addToast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<MapExportFormat | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleExport = async (format: MapExportFormat) => {
+    // The root chapter's title names the story
+    const storyTitle = mapData.nodes.find((node) => node.type === 'ROOT')?.label || 'Story';
+    setExportingFormat(format);
+    try {
+      await downloadStoryMap(storyTitle, mapData, getView(), layout, format);
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Failed to export story map:', error);
+      addToast('Could not export the story map. Please try again.', 'error');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        aria-haspopup="menu"
+        className="p-1.5 rounded-lg hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
+        title="Export map"
+      >
+        <Download className="w-4 h-4" />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -10, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -10, scale: 0.95 }}
+            transition={{ duration: 0.15 }}
+            role="menu"
+            className="absolute right-0 top-full mt-2 w-60 backdrop-blur-xl bg-slate-900/95 border border-white/10 rounded-xl shadow-2xl overflow-hidden z-50"
+          >
+            {EXPORT_OPTIONS.map(({ value, label, description, icon: Icon }) => (
+              <button
+                key={value}
+                role="menuitem"
+                onClick={() => handleExport(value)}
+                disabled={exportingFormat !== null}
+                className="w-full flex items-start gap-3 px-4 py-2.5 text-left hover:bg-white/10 transition-colors border-b border-white/5 last:border-b-0 disabled:opacity-60"
+              >
+                {exportingFormat === value ? (
+                  <Loader2 className="w-4 h-4 mt-0.5 text-violet-400 animate-spin" />
+                ) : (
+                  <Icon className="w-4 h-4 mt-0.5 text-violet-400" />
+                )}
+                <span>
+                  <span className="block text-sm text-slate-200">{label}</span>
+                  <span className="block text-xs text-slate-500">{description}</span>
+                </span>
+              </button>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -1,24 +1,26 @@
 import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Bell } from 'lucide-react';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Bell, BellRing, Loader2 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { getNotifications, markNotificationRead, type Notification } from '../services/api';
+import type { Notification } from '../services/api';
+import { useNotifications } from '../hooks/useNotifications';
+import { usePushNotifications } from '../hooks/usePushNotifications';
+import { getPushPermission } from '../lib/webPush';
+import { useToast } from './ui';
+import { formatNotificationTime } from '../lib/notifications';
 
-export function NotificationBell() {
+interface NotificationBellProps {
+  userId: string;
+}
+
+export function NotificationBell({ userId }: NotificationBellProps) {
   const navigate = useNavigate();
-  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+  const { notifications, unreadCount, markRead } = useNotifications();
+  const push = usePushNotifications(userId);
   const [isOpen, setIsOpen] = useState(false);
   const popoverRef = useRef<HTMLDivElement>(null);
 
-  const { data: notifications = [] } = useQuery<Notification[]>({
-    queryKey: ['notifications'],
-    queryFn: getNotifications,
-    refetchInterval: 30000, // Poll every 30 seconds
-  });
-
-  const unreadCount = notifications.filter((n) => !n.isRead).length;
-
   // Close popover when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -30,31 +32,24 @@ export function NotificationBell() {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const handleNotificationClick = async (notification: Notification) => {
-    try {
-      await markNotificationRead(notification.id);
-      // Invalidate the query to refresh the notifications
-      queryClient.invalidateQueries({ queryKey: ['notifications'] });
-    } catch (error) {
-      console.error('Failed to mark notification as read:', error);
-    }
+  const handleNotificationClick = (notification: Notification) => {
+    if (!notification.isRead) markRead(notification.id);
     setIsOpen(false);
     navigate(`/tale/${notification.relatedTaleId}`);
   };
 
-  const formatTime = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMs / 3600000);
-    const diffDays = Math.floor(diffMs / 86400000);
-
-    if (diffMins < 1) return 'Just now';
-    if (diffMins < 60) return `${diffMins}m ago`;
-    if (diffHours < 24) return `${diffHours}h ago`;
-    if (diffDays < 7) return `${diffDays}d ago`;
-    return date.toLocaleDateString();
+  const handleEnablePush = () => {
+    push.subscribe.mutate(undefined, {
+      onSuccess: () => addToast("Push notifications are on. We'll let you know when your story grows.", 'success'),
+      onError: () =>
+        addToast(
+          // Read again: the browser prompt may have just been answered
+          getPushPermission() === 'denied'
+            ? 'Notifications are blocked for this site in your browser settings.'
+            : 'Could not turn on push notifications.',
+          'error'
+        ),
+    });
   };
 
   return (
@@ -92,10 +87,49 @@ export function NotificationBell() {
             className="absolute right-0 top-full mt-2 w-80 backdrop-blur-xl bg-slate-900/95 border border-white/10 rounded-xl shadow-2xl overflow-hidden z-50"
           >
             {/* Header */}
-            <div className="px-4 py-3 border-b border-white/10">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
               <h3 className="text-sm font-semibold text-white">Notifications</h3>
+              <button
+                onClick={() => {
+                  setIsOpen(false);
+                  navigate('/notifications');
+                }}
+                className="text-xs text-violet-300 hover:text-violet-200 transition-colors"
+              >
+                See all
+              </button>
             </div>
 
+            {/* Push opt-in */}
+            {push.shouldPrompt && (
+              <div className="px-4 py-3 border-b border-white/10 bg-violet-500/5">
+                <div className="flex items-start gap-3">
+                  <BellRing className="w-4 h-4 mt-0.5 text-violet-300 flex-shrink-0" />
+                  <div className="flex-1">
+                    <p className="text-xs text-slate-300">
+                      Get notified when someone continues your story, even with this tab closed.
+                    </p>
+                    <div className="flex items-center gap-3 mt-2">
+                      <button
+                        onClick={handleEnablePush}
+                        disabled={push.subscribe.isPending}
+                        className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium bg-violet-600 hover:bg-violet-500 text-white transition-colors disabled:opacity-50"
+                      >
+                        {push.subscribe.isPending && <Loader2 className="w-3 h-3 animate-spin" />}
+                        Turn on
+                      </button>
+                      <button
+                        onClick={push.dismissPrompt}
+                        className="text-xs text-slate-400 hover:text-slate-200 transition-colors"
+                      >
+                        Not now
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Notification List */}
             <div className="max-h-96 overflow-y-auto">
               {notifications.length === 0 ? (
@@ -122,7 +156,7 @@ export function NotificationBell() {
                           {notification.message}
                         </p>
                         <p className="text-xs text-slate-500 mt-1">
-                          {formatTime(notification.createdAt)}
+                          {formatNotificationTime(notification.createdAt)}
                         </p>
                       </div>
                     </div>
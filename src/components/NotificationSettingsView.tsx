@@ -0,0 +1,303 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { supabase } from '../lib/supabase';
+import type { DigestFrequency, NotificationDeliveryPreference, NotificationType } from '../services/api';
+import { NOTIFICATION_TYPE_DESCRIPTIONS, NOTIFICATION_TYPE_LABELS } from '../lib/notifications';
+import { useNotificationPreferences } from '../hooks/useNotificationPreferences';
+import { usePushNotifications } from '../hooks/usePushNotifications';
+import { getErrorMessage } from '../services/apiErrors';
+import { ArrowLeft, Bell, BellOff, BellRing, Mail, RefreshCw, Settings } from 'lucide-react';
+import { Button, Card, Navbar, Footer, useToast } from './ui';
+import FeedbackModal from './FeedbackModal';
+import type { User } from '@supabase/supabase-js';
+
+const NOTIFICATION_TYPES = Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[];
+
+const DIGEST_OPTIONS: { value: DigestFrequency; label: string }[] = [
+  { value: 'DAILY', label: 'Daily' },
+  { value: 'WEEKLY', label: 'Weekly' },
+];
+
+// Small on/off switch for a single delivery channel
+function DeliverySwitch({
+  checked,
+  label,
+  onChange,
+}: {
+  checked: boolean;
+  label: string;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <button
+      role="switch"
+      aria-checked={checked}
+      aria-label={label}
+      onClick={() => onChange(!checked)}
+      className={`relative w-10 h-6 rounded-full transition-colors ${
+        checked ? 'bg-violet-600' : 'bg-slate-700'
+      }`}
+    >
+      <motion.span
+        layout
+        transition={{ type: 'spring', stiffness: 500, damping: 30 }}
+        className={`absolute top-1 w-4 h-4 rounded-full bg-white ${checked ? 'right-1' : 'left-1'}`}
+      />
+    </button>
+  );
+}
+
+export default function NotificationSettingsView() {
+  const navigate = useNavigate();
+  const { addToast } = useToast();
+  const [user, setUser] = useState<User | null>(null);
+  const [isFeedbackOpen, setIsFeedbackOpen] = useState(false);
+  const { preferences, isLoading, error, refetch, isRefetching, update, setStoryMuted } = useNotificationPreferences(
+    user?.id ?? null
+  );
+  const push = usePushNotifications(user?.id ?? null);
+
+  useEffect(() => {
+    const checkSession = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user) {
+        navigate('/login');
+        return;
+      }
+      setUser(session.user);
+    };
+    checkSession();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session?.user) {
+        navigate('/login');
+        return;
+      }
+      setUser(session.user);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  const onError = () => addToast('Could not save your notification settings. Please try again.', 'error');
+
+  const handleDeliveryChange = (type: NotificationType, change: Partial<NotificationDeliveryPreference>) => {
+    if (!preferences) return;
+    update.mutate({ delivery: { [type]: { ...preferences.delivery[type], ...change } } }, { onError });
+  };
+
+  const handlePushChange = (isOn: boolean) => {
+    const mutation = isOn ? push.subscribe : push.unsubscribe;
+    mutation.mutate(undefined, {
+      onError: () => addToast('Could not update push notifications for this browser.', 'error'),
+    });
+  };
+
+  const pushDescription = !push.isSupported
+    ? "This browser doesn't support push notifications."
+    : push.permission === 'denied'
+      ? 'Notifications are blocked for this site. Allow them in your browser settings first.'
+      : 'New branches on your chapters, even with VoTales closed. Applies to this browser only.';
+
+  const isDigestUsed = !!preferences && NOTIFICATION_TYPES.some((type) => preferences.delivery[type]?.digest);
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Navigation */}
+      <Navbar user={user} />
+
+      <main className="flex-1 max-w-3xl mx-auto px-6 py-12 w-full">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="space-y-8"
+        >
+          {/* Header */}
+          <div>
+            <Link
+              to="/notifications"
+              className="inline-flex items-center gap-2 text-sm text-slate-400 hover:text-violet-300 transition-colors mb-4"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to notifications
+            </Link>
+            <div className="flex items-center gap-3">
+              <Settings className="w-6 h-6 text-violet-400" />
+              <h1 className="text-3xl font-serif font-bold text-white">Notification settings</h1>
+            </div>
+          </div>
+
+          {error && !preferences ? (
+            <Card className="p-8 text-center border-red-500/20">
+              <p className="text-red-400 font-serif text-lg">Unable to load your settings</p>
+              <p className="text-slate-500 text-sm mt-2">
+                {getErrorMessage(error, 'Something went wrong while loading your notification settings.')}
+              </p>
+              <Button
+                variant="ghost"
+                className="mt-6"
+                onClick={() => refetch()}
+                isLoading={isRefetching}
+                leftIcon={<RefreshCw className="w-4 h-4" />}
+              >
+                Try again
+              </Button>
+            </Card>
+          ) : isLoading || !preferences ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-16 rounded-xl bg-white/5 animate-pulse" />
+              ))}
+            </div>
+          ) : (
+            <>
+              {/* Delivery per kind */}
+              <Card className="overflow-hidden">
+                <div className="flex items-center justify-end gap-6 px-5 py-3 border-b border-white/10 text-xs font-medium text-slate-400">
+                  <span className="flex items-center gap-1.5 w-14 justify-center">
+                    <Bell className="w-3.5 h-3.5" />
+                    In-app
+                  </span>
+                  <span className="flex items-center gap-1.5 w-14 justify-center">
+                    <Mail className="w-3.5 h-3.5" />
+                    Digest
+                  </span>
+                </div>
+                <ul>
+                  {NOTIFICATION_TYPES.map((type) => {
+                    const delivery = preferences.delivery[type] ?? { inApp: true, digest: false };
+                    return (
+                      <li
+                        key={type}
+                        className="flex items-center gap-6 px-5 py-4 border-b border-white/5 last:border-b-0"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-slate-200">{NOTIFICATION_TYPE_LABELS[type]}</p>
+                          <p className="text-xs text-slate-500 mt-0.5">{NOTIFICATION_TYPE_DESCRIPTIONS[type]}</p>
+                        </div>
+                        <div className="w-14 flex justify-center">
+                          <DeliverySwitch
+                            checked={delivery.inApp}
+                            label={`${NOTIFICATION_TYPE_LABELS[type]} in-app`}
+                            onChange={(inApp) => handleDeliveryChange(type, { inApp })}
+                          />
+                        </div>
+                        <div className="w-14 flex justify-center">
+                          <DeliverySwitch
+                            checked={delivery.digest}
+                            label={`${NOTIFICATION_TYPE_LABELS[type]} in the email digest`}
+                            onChange={(digest) => handleDeliveryChange(type, { digest })}
+                          />
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </Card>
+
+              {/* Browser push */}
+              <Card className="p-5">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-start gap-3">
+                    <BellRing className="w-4 h-4 mt-0.5 text-violet-400 flex-shrink-0" />
+                    <div>
+                      <h2 className="text-sm font-medium text-slate-200">Push notifications</h2>
+                      <p className="text-xs text-slate-500 mt-0.5">{pushDescription}</p>
+                    </div>
+                  </div>
+                  {push.isSupported && push.permission !== 'denied' && (
+                    <DeliverySwitch
+                      checked={push.isSubscribed}
+                      label="Push notifications in this browser"
+                      onChange={handlePushChange}
+                    />
+                  )}
+                </div>
+              </Card>
+
+              {/* Digest frequency */}
+              <Card className="p-5">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div>
+                    <h2 className="text-sm font-medium text-slate-200">Email digest</h2>
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      {isDigestUsed
+                        ? 'One email summarising everything marked for the digest.'
+                        : 'Turn on the digest for a kind above to start receiving it.'}
+                    </p>
+                  </div>
+                  <div
+                    className={`flex items-center gap-1 p-1 bg-slate-800/50 rounded-lg border border-slate-700/50 self-start sm:self-auto ${
+                      isDigestUsed ? '' : 'opacity-50'
+                    }`}
+                  >
+                    {DIGEST_OPTIONS.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        onClick={() => update.mutate({ digestFrequency: value }, { onError })}
+                        className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                          preferences.digestFrequency === value
+                            ? 'bg-violet-600 text-white shadow-lg shadow-violet-500/25'
+                            : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/50'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </Card>
+
+              {/* Muted stories */}
+              <div>
+                <div className="flex items-center gap-3 mb-3">
+                  <BellOff className="w-5 h-5 text-violet-400" />
+                  <h2 className="text-xl font-serif font-semibold text-white">Muted stories</h2>
+                </div>
+                {preferences.mutedStories.length > 0 ? (
+                  <Card className="overflow-hidden">
+                    <ul>
+                      {preferences.mutedStories.map((story) => (
+                        <li
+                          key={story.rootTaleId}
+                          className="flex items-center justify-between gap-4 px-5 py-3 border-b border-white/5 last:border-b-0"
+                        >
+                          <Link
+                            to={`/tale/${story.rootTaleId}`}
+                            className="text-sm text-violet-300 hover:text-violet-200 font-serif truncate transition-colors"
+                          >
+                            {story.title || 'Untitled'}
+                          </Link>
+                          <button
+                            onClick={() => setStoryMuted.mutate({ story, isMuted: false }, { onError })}
+                            className="flex-shrink-0 px-3 py-1.5 rounded-lg text-sm font-medium text-slate-300 hover:text-white hover:bg-white/10 border border-white/10 transition-colors"
+                          >
+                            Unmute
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </Card>
+                ) : (
+                  <Card className="p-8 text-center">
+                    <p className="text-sm text-slate-400">
+                      No muted stories. Mute a story from its reader page to stop hearing about it.
+                    </p>
+                  </Card>
+                )}
+              </div>
+            </>
+          )}
+        </motion.div>
+      </main>
+
+      {/* Footer */}
+      <Footer onFeedbackClick={() => setIsFeedbackOpen(true)} />
+
+      {/* Feedback Modal */}
+      <FeedbackModal isOpen={isFeedbackOpen} onClose={() => setIsFeedbackOpen(false)} />
+    </div>
+  );
+}
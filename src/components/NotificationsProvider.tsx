@@ -0,0 +1,117 @@
+import { useState, useEffect, useRef, type ReactNode } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { getNotifications } from '../services/api';
+import { getUserTopic } from '../lib/realtime';
+import { addNotification, NOTIFICATIONS_KEY } from '../lib/notificationCache';
+import { dropPushSubscription, isNotificationClickMessage } from '../lib/webPush';
+import { clearOfflineCache } from '../lib/offlineCache';
+import { useRealtimeChannel } from '../hooks/useRealtimeChannel';
+import { useNotificationActions } from '../hooks/useNotificationActions';
+import { PUSH_SUBSCRIPTION_KEY } from '../hooks/usePushNotifications';
+import { NotificationsContext } from '../hooks/useNotifications';
+
+// Matches the "(3) " badge this provider puts in front of the page title
+const TITLE_BADGE_PATTERN = /^\(\d+\+?\) /;
+
+const POLL_INTERVAL_MS = 30000;
+
+// Owns the reader's notifications for the whole app; read them with useNotifications()
+export function NotificationsProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const { markRead, markAllRead } = useNotificationActions();
+  const [userId, setUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const checkSession = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      setUserId(session?.user.id ?? null);
+    };
+    checkSession();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // The cache key isn't per user, so drop the previous reader's notifications on sign-out
+  useEffect(() => {
+    if (!userId) queryClient.removeQueries({ queryKey: NOTIFICATIONS_KEY });
+  }, [userId, queryClient]);
+
+  // Sessions can also end without the sign-out buttons (expiry, another tab), so
+  // stop this browser receiving the previous account's pushes and drop its
+  // offline copies (they hold that account's votes) whenever it changes
+  const previousUserIdRef = useRef(userId);
+  useEffect(() => {
+    const previousUserId = previousUserIdRef.current;
+    previousUserIdRef.current = userId;
+    if (!previousUserId || previousUserId === userId) return;
+    dropPushSubscription();
+    clearOfflineCache();
+    queryClient.removeQueries({ queryKey: PUSH_SUBSCRIPTION_KEY });
+  }, [userId, queryClient]);
+
+  // New notifications are pushed over the reader's private channel
+  const isLive = useRealtimeChannel(
+    userId ? getUserTopic(userId) : null,
+    { notification_created: (notification) => addNotification(queryClient, notification) },
+    true
+  );
+
+  // Poll only while the channel is down
+  const { data: notifications = [], isLoading } = useQuery({
+    queryKey: NOTIFICATIONS_KEY,
+    queryFn: getNotifications,
+    refetchInterval: isLive ? false : POLL_INTERVAL_MS,
+    enabled: !!userId,
+  });
+  const unreadCount = notifications.filter((notification) => !notification.isRead).length;
+
+  // Unread badge in the browser tab, e.g. "(3) VoTales"
+  useEffect(() => {
+    const baseTitle = document.title.replace(TITLE_BADGE_PATTERN, '');
+    document.title = unreadCount > 0 ? `(${unreadCount > 99 ? '99+' : unreadCount}) ${baseTitle}` : baseTitle;
+    return () => {
+      document.title = document.title.replace(TITLE_BADGE_PATTERN, '');
+    };
+  }, [unreadCount]);
+
+  // Push notification clicks land in an open tab as a message from the service worker
+  const markReadRef = useRef(markRead.mutate);
+  useEffect(() => {
+    markReadRef.current = markRead.mutate;
+  });
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (!isNotificationClickMessage(event.data)) return;
+      if (event.data.notificationId) markReadRef.current(event.data.notificationId);
+      navigate(event.data.url);
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [navigate]);
+
+  return (
+    <NotificationsContext.Provider
+      value={{
+        notifications,
+        unreadCount,
+        isLoading,
+        isLive,
+        markRead: (id) => markRead.mutate(id),
+        markAllRead: () => markAllRead.mutate(),
+      }}
+    >
+      {children}
+    </NotificationsContext.Provider>
+  );
+}
+
+export default NotificationsProvider;
@@ -0,0 +1,316 @@
+import { useState, useEffect } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { useNavigate, Link } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { supabase } from '../lib/supabase';
+import { getNotificationsPage, type Notification, type NotificationType } from '../services/api';
+import { NOTIFICATION_HISTORY_KEY } from '../lib/notificationCache';
+import { NOTIFICATION_TYPE_LABELS, formatNotificationTime } from '../lib/notifications';
+import { useNotificationActions } from '../hooks/useNotificationActions';
+import { Bell, GitBranch, Star, Trophy, Check, CheckCheck, Trash2, Loader2, Settings } from 'lucide-react';
+import { Button, Card, Modal, Navbar, Footer, useToast } from './ui';
+import FeedbackModal from './FeedbackModal';
+import type { User } from '@supabase/supabase-js';
+
+const PAGE_SIZE = 20;
+
+const TYPE_ICONS: Record<NotificationType, React.ElementType> = {
+  NEW_BRANCH: GitBranch,
+  VOTE_RECEIVED: Star,
+  MILESTONE: Trophy,
+};
+
+const TYPE_FILTERS: { value: NotificationType | 'all'; label: string }[] = [
+  { value: 'all', label: 'All' },
+  ...(Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]).map((type) => ({
+    value: type,
+    label: NOTIFICATION_TYPE_LABELS[type],
+  })),
+];
+
+// Single row in the notification history
+function NotificationRow({
+  notification,
+  onOpen,
+  onMarkRead,
+  onDelete,
+}: {
+  notification: Notification;
+  onOpen: () => void;
+  onMarkRead: () => void;
+  onDelete: () => void;
+}) {
+  const Icon = TYPE_ICONS[notification.type] ?? Bell;
+
+  return (
+    <motion.li
+      layout
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, x: -20 }}
+      className={`group flex items-start gap-4 px-5 py-4 border-b border-white/5 last:border-b-0 ${
+        !notification.isRead ? 'bg-violet-500/10' : ''
+      }`}
+    >
+      <div className="p-2 rounded-lg bg-violet-500/20 text-violet-300 flex-shrink-0">
+        <Icon className="w-4 h-4" />
+      </div>
+
+      <button onClick={onOpen} className="flex-1 min-w-0 text-left">
+        <p className={`text-sm line-clamp-2 ${notification.isRead ? 'text-slate-400' : 'text-slate-200'}`}>
+          {notification.message}
+        </p>
+        <p className="text-xs text-slate-500 mt-1">{formatNotificationTime(notification.createdAt)}</p>
+      </button>
+
+      <div className="flex items-center gap-1 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+        {!notification.isRead && (
+          <button
+            onClick={onMarkRead}
+            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 transition-colors"
+            aria-label="Mark as read"
+            title="Mark as read"
+          >
+            <Check className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={onDelete}
+          className="p-2 rounded-lg text-slate-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+          aria-label="Delete notification"
+          title="Delete"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </motion.li>
+  );
+}
+
+export default function NotificationsView() {
+  const navigate = useNavigate();
+  const { addToast } = useToast();
+  const { markRead, markAllRead, remove, clearRead } = useNotificationActions();
+  const [user, setUser] = useState<User | null>(null);
+  const [typeFilter, setTypeFilter] = useState<NotificationType | 'all'>('all');
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [isFeedbackOpen, setIsFeedbackOpen] = useState(false);
+  const [isClearConfirmOpen, setIsClearConfirmOpen] = useState(false);
+
+  useEffect(() => {
+    const checkSession = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user) {
+        navigate('/login');
+        return;
+      }
+      setUser(session.user);
+    };
+    checkSession();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session?.user) {
+        navigate('/login');
+        return;
+      }
+      setUser(session.user);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  const type = typeFilter === 'all' ? undefined : typeFilter;
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [...NOTIFICATION_HISTORY_KEY, { type, unreadOnly }],
+    queryFn: ({ pageParam }) => getNotificationsPage({ page: pageParam, size: PAGE_SIZE, type, unreadOnly }),
+    getNextPageParam: (lastPage) =>
+      lastPage.hasNextPage ? lastPage.page + 1 : undefined,
+    initialPageParam: 1,
+    enabled: !!user,
+  });
+
+  const notifications = data?.pages.flatMap((page) => page.items) ?? [];
+  // The loaded pages only settle these once every page is in and nothing relevant is filtered
+  // out: "mark all" covers every type, and the unread-only view hides what "clear" would delete
+  const hasUnread = !!hasNextPage || !!type || notifications.some((notification) => !notification.isRead);
+  const hasRead = !!hasNextPage || unreadOnly || notifications.some((notification) => notification.isRead);
+
+  const reportFailure = (message: string) => ({ onError: () => addToast(message, 'error') });
+
+  // Only the type being viewed is cleared, never read notifications the reader can't see
+  const handleConfirmClear = () => {
+    clearRead.mutate(type, {
+      ...reportFailure('Failed to clear notifications'),
+      onSettled: () => setIsClearConfirmOpen(false),
+    });
+  };
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.isRead) markRead.mutate(notification.id);
+    navigate(`/tale/${notification.relatedTaleId}`);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Navigation */}
+      <Navbar user={user} />
+
+      <main className="flex-1 max-w-3xl mx-auto px-6 py-12 w-full">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          {/* Header */}
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-3">
+              <Bell className="w-6 h-6 text-violet-400" />
+              <h1 className="text-3xl font-serif font-bold text-white">Notifications</h1>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => markAllRead.mutate(undefined, reportFailure('Failed to mark notifications as read'))}
+                disabled={!hasUnread || markAllRead.isPending}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium text-slate-300 hover:text-white hover:bg-white/10 border border-white/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <CheckCheck className="w-4 h-4" />
+                Mark all as read
+              </button>
+              <button
+                onClick={() => setIsClearConfirmOpen(true)}
+                disabled={!hasRead || clearRead.isPending}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium text-slate-300 hover:text-red-300 hover:bg-red-500/10 border border-white/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Trash2 className="w-4 h-4" />
+                Clear read
+              </button>
+              <Link
+                to="/settings/notifications"
+                className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 border border-white/10 transition-colors"
+                aria-label="Notification settings"
+                title="Notification settings"
+              >
+                <Settings className="w-4 h-4" />
+              </Link>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+            <div className="flex items-center gap-1 p-1 bg-slate-800/50 rounded-lg border border-slate-700/50">
+              {TYPE_FILTERS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setTypeFilter(value)}
+                  className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                    typeFilter === value
+                      ? 'bg-violet-600 text-white shadow-lg shadow-violet-500/25'
+                      : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-slate-400 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={unreadOnly}
+                onChange={(event) => setUnreadOnly(event.target.checked)}
+                className="rounded border-slate-600 bg-slate-800 text-violet-600 focus:ring-violet-500"
+              />
+              Unread only
+            </label>
+          </div>
+
+          {isLoading || !user ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-16 rounded-xl bg-white/5 animate-pulse" />
+              ))}
+            </div>
+          ) : notifications.length > 0 ? (
+            <>
+              <Card className="overflow-hidden">
+                <ul>
+                  <AnimatePresence initial={false}>
+                    {notifications.map((notification) => (
+                      <NotificationRow
+                        key={notification.id}
+                        notification={notification}
+                        onOpen={() => handleOpen(notification)}
+                        onMarkRead={() => markRead.mutate(notification.id)}
+                        onDelete={() => remove.mutate(notification.id, reportFailure('Failed to delete notification'))}
+                      />
+                    ))}
+                  </AnimatePresence>
+                </ul>
+              </Card>
+
+              {/* Load More Button */}
+              {hasNextPage && (
+                <div className="flex justify-center mt-8">
+                  <button
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    className="flex items-center gap-2 px-6 py-3 rounded-xl bg-violet-600/20 hover:bg-violet-600/30 border border-violet-500/30 text-violet-300 hover:text-violet-200 font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isFetchingNextPage ? (
+                      <>
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        Loading...
+                      </>
+                    ) : (
+                      'Load More'
+                    )}
+                  </button>
+                </div>
+              )}
+            </>
+          ) : (
+            <Card className="p-12 text-center">
+              <Bell className="w-12 h-12 mx-auto mb-4 text-slate-500" />
+              <p className="text-slate-400 font-serif">
+                {unreadOnly || type ? 'No notifications match these filters.' : "You're all caught up."}
+              </p>
+            </Card>
+          )}
+        </motion.div>
+      </main>
+
+      {/* Clear Read Confirmation */}
+      <Modal isOpen={isClearConfirmOpen} onClose={() => setIsClearConfirmOpen(false)} title="Clear read notifications" size="sm">
+        <div className="p-6">
+          <p className="text-center text-slate-300 mb-2">
+            {type
+              ? `Delete every read notification in ${NOTIFICATION_TYPE_LABELS[type]}?`
+              : 'Delete every read notification?'}
+          </p>
+          <p className="text-center text-sm text-slate-500 mb-6">This action cannot be undone.</p>
+          <div className="flex justify-end gap-3">
+            <Button variant="ghost" onClick={() => setIsClearConfirmOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="danger" onClick={handleConfirmClear} isLoading={clearRead.isPending}>
+              Delete
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Footer */}
+      <Footer onFeedbackClick={() => setIsFeedbackOpen(true)} />
+
+      {/* Feedback Modal */}
+      <FeedbackModal isOpen={isFeedbackOpen} onClose={() => setIsFeedbackOpen(false)} />
+    </div>
+  );
+}
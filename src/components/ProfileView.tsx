@@ -10,6 +10,10 @@ import {
   fetchTale,
   type TaleSummary 
 } from '../services/api';
+import { getErrorMessage } from '../services/apiErrors';
+import { listDrafts, clearDraft, type Draft } from '../lib/drafts';
+import { releasePushSubscription } from '../lib/webPush';
+import { clearOfflineCache } from '../lib/offlineCache';
 import { 
   Calendar, 
   Star, 
@@ -19,11 +23,13 @@ import {
   ChevronRight,
   GitBranch,
   TreeDeciduous,
-  Settings
+  Settings,
+  FilePen
 } from 'lucide-react';
 import { Card, Navbar, Footer, Button, Modal, Input, Textarea, useToast } from './ui';
 import FeedbackModal from './FeedbackModal';
 import EditProfileModal from './EditProfileModal';
+import { RichTextSnippet } from './RichText';
 import type { User } from '@supabase/supabase-js';
 
 // Animation variants
@@ -201,12 +207,12 @@ function StoryCard({
           </div>
 
           {/* Preview */}
-          <p 
-            className="text-slate-300 text-sm font-serif leading-relaxed line-clamp-3 mb-4 cursor-pointer"
-            onClick={() => onNavigate(tale.id)}
-          >
-            {tale.contentPreview}
-          </p>
+          <div onClick={() => onNavigate(tale.id)} className="cursor-pointer">
+            <RichTextSnippet
+              content={tale.contentPreview}
+              className="text-slate-300 text-sm font-serif leading-relaxed line-clamp-3 mb-4"
+            />
+          </div>
 
           {/* Actions */}
           <div className="flex items-center justify-between pt-4 border-t border-white/10">
@@ -281,12 +287,12 @@ function ContributionItem({
               </>
             )}
           </p>
-          <p 
-            className="text-slate-400 text-xs line-clamp-2 font-serif mb-3 cursor-pointer"
-            onClick={() => onNavigate(tale.id)}
-          >
-            {tale.contentPreview}
-          </p>
+          <div onClick={() => onNavigate(tale.id)} className="cursor-pointer">
+            <RichTextSnippet
+              content={tale.contentPreview}
+              className="text-slate-400 text-xs line-clamp-2 font-serif mb-3"
+            />
+          </div>
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
               <span className="text-xs text-slate-500">
@@ -327,6 +333,84 @@ function ContributionItem({
   );
 }
 
+// Draft Item (unsent chapters saved locally)
+function DraftItem({
+  draft,
+  onContinue,
+  onDiscard,
+}: {
+  draft: Draft;
+  onContinue: (draft: Draft) => void;
+  onDiscard: (draft: Draft) => void;
+}) {
+  return (
+    <motion.div
+      variants={itemVariants}
+      whileHover={{ x: 4 }}
+      className="p-4 rounded-xl bg-white/5 border border-white/10 hover:border-violet-500/30 transition-all duration-200"
+    >
+      <div className="flex items-start gap-4">
+        <div className="flex-shrink-0 p-2 rounded-lg bg-amber-500/20">
+          <FilePen className="w-4 h-4 text-amber-400" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p
+            className="text-sm text-slate-300 mb-1 cursor-pointer hover:text-white transition-colors"
+            onClick={() => onContinue(draft)}
+          >
+            {draft.parentTaleId ? 'Draft branch' : 'Draft story'}
+            {draft.title && (
+              <>
+                {' - '}
+                <span className="text-violet-400 font-medium">
+                  "{draft.title}"
+                </span>
+              </>
+            )}
+          </p>
+          {draft.content ? (
+            <RichTextSnippet
+              content={draft.content}
+              className="text-slate-400 text-xs line-clamp-2 font-serif mb-3"
+            />
+          ) : (
+            <p className="text-slate-500 text-xs font-serif mb-3">No content yet</p>
+          )}
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-500">
+              Last edited{' '}
+              {new Date(draft.updatedAt).toLocaleDateString('en-US', {
+                year: 'numeric',
+                month: 'short',
+                day: 'numeric'
+              })}
+            </span>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onContinue(draft)}
+                leftIcon={<Pencil className="w-3 h-3" />}
+              >
+                Continue
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDiscard(draft)}
+                leftIcon={<Trash2 className="w-3 h-3 text-red-400" />}
+                className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+              >
+                Discard
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
 // Edit Tale Modal
 function EditTaleModal({
   isOpen,
@@ -467,7 +551,8 @@ export default function ProfileView() {
   const { addToast } = useToast();
   
   const [user, setUser] = useState<User | null>(null);
-  const [activeTab, setActiveTab] = useState<'roots' | 'branches'>('roots');
+  const [activeTab, setActiveTab] = useState<'roots' | 'branches' | 'drafts'>('roots');
+  const [drafts, setDrafts] = useState<Draft[]>([]);
   const [editingTale, setEditingTale] = useState<TaleSummary | null>(null);
   const [editingIsRoot, setEditingIsRoot] = useState(false);
   const [deletingTale, setDeletingTale] = useState<TaleSummary | null>(null);
@@ -484,6 +569,7 @@ export default function ProfileView() {
         return;
       }
       setUser(session.user);
+      setDrafts(listDrafts(session.user.id));
       setAvatarStyle(session.user.user_metadata?.avatarStyle || 'initials');
       setBio(session.user.user_metadata?.bio || '');
     };
@@ -495,6 +581,7 @@ export default function ProfileView() {
         return;
       }
       setUser(session.user);
+      setDrafts(listDrafts(session.user.id));
       setAvatarStyle(session.user.user_metadata?.avatarStyle || 'initials');
       setBio(session.user.user_metadata?.bio || '');
     });
@@ -519,8 +606,8 @@ export default function ProfileView() {
       setEditingIsRoot(false);
       addToast('Chapter updated successfully!', 'success');
     },
-    onError: () => {
-      addToast('Failed to update chapter. Please try again.', 'error');
+    onError: (error) => {
+      addToast(getErrorMessage(error, 'Failed to update chapter. Please try again.'), 'error');
     },
   });
 
@@ -537,8 +624,8 @@ export default function ProfileView() {
         addToast(result.message || 'This chapter has branches! You can only edit it.', 'warning');
       }
     },
-    onError: () => {
-      addToast('Failed to delete chapter. Please try again.', 'error');
+    onError: (error) => {
+      addToast(getErrorMessage(error, 'Failed to delete chapter. Please try again.'), 'error');
     },
   });
 
@@ -560,6 +647,18 @@ export default function ProfileView() {
     navigate(`/tale/${id}`);
   };
 
+  // Drafts for a branch reopen on the parent chapter; a new story reopens the create modal
+  const handleContinueDraft = (draft: Draft) => {
+    navigate(draft.parentTaleId ? `/tale/${draft.parentTaleId}` : '/?newStory=1');
+  };
+
+  const handleDiscardDraft = (draft: Draft) => {
+    if (!user) return;
+    clearDraft(user.id, draft.parentTaleId);
+    setDrafts(listDrafts(user.id));
+    addToast('Draft discarded.', 'info');
+  };
+
   const handleSaveEdit = (id: string, title: string, content: string) => {
     updateMutation.mutate({ id, title, content });
   };
@@ -682,7 +781,7 @@ export default function ProfileView() {
           initial={{ opacity: 0, y: 10 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.4 }}
-          className="flex gap-3 mb-8"
+          className="flex flex-wrap gap-3 mb-8"
         >
           <TabButton
             active={activeTab === 'roots'}
@@ -696,6 +795,12 @@ export default function ProfileView() {
             icon={GitBranch}
             label="Contributions"
           />
+          <TabButton
+            active={activeTab === 'drafts'}
+            onClick={() => setActiveTab('drafts')}
+            icon={FilePen}
+            label={drafts.length > 0 ? `Drafts (${drafts.length})` : 'Drafts'}
+          />
         </motion.div>
 
         {/* Loading State */}
@@ -814,6 +919,42 @@ export default function ProfileView() {
                 )}
               </motion.div>
             )}
+
+            {activeTab === 'drafts' && (
+              <motion.div
+                key="drafts"
+                variants={tabVariants}
+                initial="hidden"
+                animate="visible"
+                exit="exit"
+              >
+                {drafts.length === 0 ? (
+                  <Card className="p-12 text-center">
+                    <FilePen className="w-12 h-12 mx-auto mb-4 text-slate-500" />
+                    <p className="text-slate-300 font-serif text-lg">No drafts</p>
+                    <p className="text-slate-500 text-sm mt-2">
+                      Chapters you start writing are saved here until you submit them
+                    </p>
+                  </Card>
+                ) : (
+                  <motion.div
+                    variants={containerVariants}
+                    initial="hidden"
+                    animate="visible"
+                    className="flex flex-col gap-4"
+                  >
+                    {drafts.map((draft) => (
+                      <DraftItem
+                        key={draft.parentTaleId ?? 'new-root'}
+                        draft={draft}
+                        onContinue={handleContinueDraft}
+                        onDiscard={handleDiscardDraft}
+                      />
+                    ))}
+                  </motion.div>
+                )}
+              </motion.div>
+            )}
           </AnimatePresence>
         )}
       </main>
@@ -868,6 +1009,8 @@ export default function ProfileView() {
         }}
         onDeleteAccount={async () => {
           // Sign out and delete account
+          await releasePushSubscription();
+          await clearOfflineCache();
           await supabase.auth.signOut();
           navigate('/');
         }}
@@ -1,9 +1,15 @@
-import { useState, useEffect } from 'react';
-import { useParams, useNavigate, Link } from 'react-router-dom';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { motion, AnimatePresence } from 'framer-motion';
-import { fetchTale, voteForTale, getStoryMap, getTaleChoices, type StoryMapResponse, type TaleChoice } from '../services/api';
+import { getStoryMapWindow, getTaleChoices, saveBranchForOffline, type ChoiceSortOption, type StoryMapResponse } from '../services/api';
 import { supabase } from '../lib/supabase';
+import { getCachedStoryMap } from '../lib/offlineCache';
+import { taleQueryOptions } from '../lib/taleQueries';
+import { NotFoundError, getErrorMessage } from '../services/apiErrors';
+import { parseRichText } from '../lib/richText';
+import { getPathToTale, getCanonPath, mergeStoryMaps } from '../lib/storyPath';
+import type { StoryExportSource } from '../lib/storyExport';
 import type { User } from '@supabase/supabase-js';
 import { 
   ArrowLeft, 
@@ -16,12 +22,33 @@ import {
   Sparkles,
   LogIn,
   Archive,
-  Loader2
+  WifiOff,
+  Crown,
+  FileText,
+  X,
+  TrendingUp,
+  Clock,
+  History,
+  Compass,
+  Users
 } from 'lucide-react';
-import { Button, GlassContainer, Modal } from './ui';
+import { Button, GlassContainer, Modal, useToast } from './ui';
 import StoryGraph from './StoryGraph';
 import ContributionForm from './ContributionForm';
 import StoryActionBar from './StoryActionBar';
+import { RichTextBlock } from './RichText';
+import ReadingPathBreadcrumb from './ReadingPathBreadcrumb';
+import StorySoFar from './StorySoFar';
+import CanonAutoAdvance from './CanonAutoAdvance';
+import ExportStoryModal from './ExportStoryModal';
+import ChoiceList from './ChoiceList';
+import { useTaleVote } from '../hooks/useTaleVote';
+import { useChoiceSort } from '../hooks/useChoiceSort';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { useRealtimeChannel } from '../hooks/useRealtimeChannel';
+import { useNotificationPreferences } from '../hooks/useNotificationPreferences';
+import { getStoryTopic } from '../lib/realtime';
+import { addChildTale, applyVoteUpdate } from '../lib/taleCache';
 
 // Animation variants
 const pageVariants = {
@@ -58,30 +85,12 @@ const paragraphVariants = {
   },
 };
 
-const choiceContainerVariants = {
-  hidden: { opacity: 0 },
-  visible: {
-    opacity: 1,
-    transition: {
-      staggerChildren: 0.12,
-      delayChildren: 0.2,
-    },
-  },
-};
-
-const choiceVariants = {
-  hidden: { opacity: 0, y: 20, scale: 0.98 },
-  visible: {
-    opacity: 1,
-    y: 0,
-    scale: 1,
-    transition: {
-      type: 'spring' as const,
-      stiffness: 120,
-      damping: 18,
-    },
-  },
-};
+const CHOICE_SORT_OPTIONS: { value: ChoiceSortOption; label: string; icon: typeof Clock }[] = [
+  { value: 'votes', label: 'Most Voted', icon: TrendingUp },
+  { value: 'newest', label: 'Newest', icon: Clock },
+  { value: 'oldest', label: 'Oldest', icon: History },
+  { value: 'unexplored', label: 'Unexplored', icon: Compass },
+];
 
 // Helper to format date
 const formatDate = (dateString: string) => {
@@ -93,62 +102,52 @@ const formatDate = (dateString: string) => {
   });
 };
 
-// Drop cap component for the first letter
-const DropCapParagraph = ({ text }: { text: string }) => {
-  if (!text || text.length === 0) return null;
-  
-  const firstLetter = text.charAt(0);
-  const restOfText = text.slice(1);
-  
-  return (
-    <p className="first-paragraph">
-      <span className="float-left text-6xl md:text-7xl font-serif font-bold text-violet-400 mr-3 mt-1 leading-none select-none">
-        {firstLetter}
-      </span>
-      {restOfText}
-    </p>
-  );
-};
-
 export default function ReaderView() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const queryClient = useQueryClient();
+  const { addToast } = useToast();
+  // Canon mode lives in the URL so it survives auto-advancing to the next chapter
+  const isCanonMode = searchParams.get('canon') === '1';
   // URL param is the source of truth - no local state for tale ID
   const currentTaleId = id || '';
   const [isGraphOpen, setIsGraphOpen] = useState(false);
-  const [votedTales, setVotedTales] = useState<Set<string>>(new Set());
-  const [optimisticVotes, setOptimisticVotes] = useState<Record<string, number>>({});
   const [user, setUser] = useState<User | null>(null);
   const [showLoginPrompt, setShowLoginPrompt] = useState(false);
-  const [storyMapData, setStoryMapData] = useState<StoryMapResponse | null>(null);
-  const [isMapLoading, setIsMapLoading] = useState(false);
-  // State for paginated choices
-  const [displayedChoices, setDisplayedChoices] = useState<TaleChoice[]>([]);
-  const [choicesPage, setChoicesPage] = useState(1);
-  const [isLoadingMoreChoices, setIsLoadingMoreChoices] = useState(false);
-  const [totalChoices, setTotalChoices] = useState(0);
-
-  // Fetch story map when graph is opened or tale changes
-  useEffect(() => {
-    const fetchMapData = async () => {
-      if (!id) return;
-      
-      setIsMapLoading(true);
+  // "Read from the beginning" mode renders every ancestor chapter above this one
+  const [isReadingFromStart, setIsReadingFromStart] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [exportSource, setExportSource] = useState<StoryExportSource>('current');
+  // Sort is remembered per reader; the "authors I follow" filter is per visit
+  const [choiceSort, setChoiceSort] = useChoiceSort(user?.id ?? null);
+  const [isFollowedOnly, setIsFollowedOnly] = useState(false);
+  const followedOnly = isFollowedOnly && !!user;
+
+  // Story map for the graph, breadcrumb and canon; vote changes are patched into this cache.
+  // Only a window around the chapter is loaded - the graph expands it on demand.
+  const { data: storyMapData = null, isLoading: isMapLoading } = useQuery({
+    queryKey: ['storyMap', id],
+    queryFn: async () => {
       try {
-        const mapData = await getStoryMap(id);
-        setStoryMapData(mapData);
+        return await getStoryMapWindow({ taleId: id! });
       } catch (error) {
         console.error('Failed to fetch story map:', error);
-        setStoryMapData(null);
-      } finally {
-        setIsMapLoading(false);
+        // Fall back to a previously saved map when offline
+        return getCachedStoryMap(id!);
       }
-    };
+    },
+    enabled: !!id,
+    networkMode: 'always',
+  });
 
-    // Fetch on load (we can also conditionally fetch only when graph is opened)
-    fetchMapData();
-  }, [id]);
+  // Branches and votes from other readers arrive over the story's channel, joined
+  // once this chapter's map shows which story it belongs to
+  const storyRootId = storyMapData && id ? getPathToTale(storyMapData.edges, id)[0] : null;
+  const isStoryLive = useRealtimeChannel(storyRootId ? getStoryTopic(storyRootId) : null, {
+    tale_created: (event) => addChildTale(queryClient, event),
+    votes_changed: ({ taleId, votes }) => applyVoteUpdate(queryClient, taleId, { votes: () => votes }),
+  });
 
   // Check auth session
   useEffect(() => {
@@ -165,73 +164,166 @@ export default function ReaderView() {
     return () => subscription.unsubscribe();
   }, []);
 
-  const voteMutation = useMutation({
-    mutationFn: voteForTale,
-    onMutate: async (taleId: string) => {
-      // Optimistic update: immediately show vote
-      setVotedTales(prev => new Set(prev).add(taleId));
-      setOptimisticVotes(prev => ({
-        ...prev,
-        [taleId]: (prev[taleId] ?? 0) + 1
-      }));
-    },
-    onError: (_error, taleId) => {
-      // Rollback on error
-      setVotedTales(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(taleId);
-        return newSet;
-      });
-      setOptimisticVotes(prev => ({
-        ...prev,
-        [taleId]: (prev[taleId] ?? 1) - 1
-      }));
-    },
-  });
+  const voteMutation = useTaleVote();
+
+  // Per-story muting for signed-in readers
+  const { preferences: notificationPreferences, setStoryMuted } = useNotificationPreferences(user?.id ?? null);
+  const isStoryMuted = !!storyRootId && !!notificationPreferences?.mutedStories.some(
+    (story) => story.rootTaleId === storyRootId
+  );
 
-  const handleVote = (e: React.MouseEvent, taleId: string) => {
-    e.stopPropagation();
+  const toggleStoryMute = () => {
+    if (!storyRootId) return;
+    const title = storyMapData?.nodes.find((node) => node.id === storyRootId)?.label ?? '';
+    setStoryMuted.mutate(
+      { story: { rootTaleId: storyRootId, title }, isMuted: !isStoryMuted },
+      {
+        onSuccess: () => addToast(isStoryMuted ? 'Story unmuted.' : "Story muted. You won't be notified about it.", 'success'),
+        onError: () => addToast('Could not update notifications for this story.', 'error'),
+      }
+    );
+  };
+
+  const requestVote = (taleId: string, hasVoted: boolean) => {
     if (!user) {
       setShowLoginPrompt(true);
       return;
     }
-    if (!votedTales.has(taleId)) {
-      voteMutation.mutate(taleId);
-    }
+    voteMutation.mutate(
+      { taleId, hasVoted },
+      {
+        onError: (error) => {
+          addToast(getErrorMessage(error, 'Could not update your vote. Please try again.'), 'error');
+        },
+      }
+    );
   };
 
+  // Loads the next window below a frontier node and merges it into the map
+  const expandMapMutation = useMutation({
+    mutationFn: (nodeId: string) => getStoryMapWindow({ taleId: nodeId }),
+    onSuccess: (mapWindow) => {
+      queryClient.setQueryData<StoryMapResponse | null>(['storyMap', id], (map) =>
+        map ? mergeStoryMaps(map, mapWindow) : mapWindow
+      );
+    },
+    onError: (error) => {
+      console.error('Failed to expand story map:', error);
+      addToast('Could not load more of the story map.', 'error');
+    },
+  });
+
+  const saveOfflineMutation = useMutation({
+    mutationFn: saveBranchForOffline,
+    onSuccess: (chapterCount) => {
+      addToast(`Saved ${chapterCount} ${chapterCount === 1 ? 'chapter' : 'chapters'} for offline reading.`, 'success');
+    },
+    onError: () => {
+      addToast('Could not save this branch for offline reading.', 'error');
+    },
+  });
+
   const { data, isLoading, error } = useQuery({
-    queryKey: ['tale', id],
-    queryFn: () => fetchTale(id!),
+    ...taleQueryOptions(currentTaleId),
+    // Without the story channel, poll for new choices and vote counts instead
+    refetchInterval: isStoryLive ? false : 60000,
+  });
+
+  const {
+    data: choicesData,
+    fetchNextPage: fetchMoreChoices,
+    hasNextPage: hasMoreChoices,
+    isFetchingNextPage: isLoadingMoreChoices,
+    isFetchNextPageError: hasChoicesPageError,
+    isLoading: isChoicesLoading,
+  } = useInfiniteQuery({
+    queryKey: ['taleChoices', id, { sort: choiceSort, followedOnly }],
+    queryFn: ({ pageParam }) =>
+      getTaleChoices({ taleId: id!, page: pageParam, size: 20, sort: choiceSort, followedOnly }),
+    getNextPageParam: (lastPage) => (lastPage.hasNextPage ? lastPage.page + 1 : undefined),
+    initialPageParam: 1,
     enabled: !!id,
   });
 
-  // Initialize displayed choices when tale data loads or id changes
-  useEffect(() => {
-    if (data) {
-      setDisplayedChoices(data.choices || []);
-      setTotalChoices(data.totalChoices || data.choices?.length || 0);
-      setChoicesPage(1); // Reset page when tale changes
-    }
-  }, [data, id]);
-
-  // Handler to load more choices
-  const handleLoadMoreChoices = async () => {
-    if (!id || isLoadingMoreChoices) return;
-    
-    setIsLoadingMoreChoices(true);
-    try {
-      const nextPage = choicesPage + 1;
-      const response = await getTaleChoices({ taleId: id, page: nextPage, size: 10 });
-      setDisplayedChoices(prev => [...prev, ...response.items]);
-      setChoicesPage(nextPage);
-    } catch (error) {
-      console.error('Failed to load more choices:', error);
-    } finally {
-      setIsLoadingMoreChoices(false);
-    }
+  // Choices embedded in the tale stand in while the list loads, or when it can't (offline),
+  // as long as the reader hasn't asked for a different order or filter
+  const isDefaultChoiceView = choiceSort === 'votes' && !followedOnly;
+  const displayedChoices = choicesData
+    ? choicesData.pages.flatMap((page) => page.items)
+    : isDefaultChoiceView
+      ? data?.choices ?? []
+      : [];
+  const totalChoices = choicesData?.pages[0]?.totalCount ?? displayedChoices.length;
+  const hasBranches = (data?.totalChoices || data?.choices?.length || 0) > 0;
+
+  const contentBlocks = useMemo(() => parseRichText(data?.content ?? ''), [data?.content]);
+
+  // Chapters from the root down to the current tale, derived from the story map
+  const readingPath = useMemo(() => {
+    if (!storyMapData || !currentTaleId) return [];
+    const labels = new Map(storyMapData.nodes.map((node) => [node.id, node.label]));
+    return getPathToTale(storyMapData.edges, currentTaleId).map((taleId) => ({
+      id: taleId,
+      label: labels.get(taleId) || 'Untitled',
+    }));
+  }, [storyMapData, currentTaleId]);
+
+  // The golden path from the root, following the most-voted choice at each chapter
+  const rootCanonPath = useMemo(() => {
+    if (!storyMapData || readingPath.length === 0) return [];
+    return getCanonPath(storyMapData.edges, readingPath[0].id);
+  }, [storyMapData, readingPath]);
+
+  const isCanonChapter = rootCanonPath.includes(currentTaleId);
+
+  // Winning choice after the current chapter, for auto-advancing in canon mode
+  const nextCanonChapter = useMemo(() => {
+    if (!storyMapData || !currentTaleId) return null;
+    const nextId = getCanonPath(storyMapData.edges, currentTaleId)[1];
+    if (!nextId) return null;
+    const node = storyMapData.nodes.find((n) => n.id === nextId);
+    return { id: nextId, label: node?.label || 'Untitled' };
+  }, [storyMapData, currentTaleId]);
+
+  const handleCanonAdvance = useCallback((taleId: string) => {
+    navigate(`/tale/${taleId}?canon=1`);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }, [navigate]);
+
+  const toggleCanonMode = () => {
+    setSearchParams(isCanonMode ? {} : { canon: '1' });
+  };
+
+  const openExport = (source: StoryExportSource) => {
+    setExportSource(source);
+    setIsExportOpen(true);
+  };
+
+  const goToTale = (taleId: string) => {
+    navigate(`/tale/${taleId}`);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  // Keyboard shortcuts (listed in the `?` overlay)
+  const choiceShortcuts = Object.fromEntries(
+    displayedChoices.slice(0, 9).map((choice, index) => [String(index + 1), () => goToTale(choice.id)])
+  );
+  useKeyboardShortcuts(
+    {
+      ...choiceShortcuts,
+      v: () => {
+        if (data && !data.isDeleted) requestVote(data.id, data.hasVoted);
+      },
+      g: () => setIsGraphOpen((open) => !open),
+      b: () => {
+        const parent = readingPath[readingPath.length - 2];
+        if (parent) goToTale(parent.id);
+      },
+      '/': () => navigate('/search'),
+    },
+    !!data
+  );
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -267,9 +359,13 @@ export default function ReaderView() {
           <div className="w-16 h-16 mx-auto mb-6 rounded-full bg-red-500/10 flex items-center justify-center">
             <BookOpen className="w-8 h-8 text-red-400" />
           </div>
-          <p className="text-red-400 font-serif text-2xl mb-2">Tale Not Found</p>
+          <p className="text-red-400 font-serif text-2xl mb-2">
+            {error instanceof NotFoundError ? 'Tale Not Found' : 'Unable to Open Tale'}
+          </p>
           <p className="text-slate-500 mb-8">
-            {error instanceof Error ? error.message : 'This chapter seems to have vanished into the mist...'}
+            {error instanceof NotFoundError
+              ? 'This chapter seems to have vanished into the mist...'
+              : getErrorMessage(error, 'This chapter seems to have vanished into the mist...')}
           </p>
           <Button
             variant="outline"
@@ -287,36 +383,19 @@ export default function ReaderView() {
     return null;
   }
 
-  const handleChoiceClick = (choiceId: string) => {
-    // Navigate to the new tale - URL is the source of truth
-    navigate(`/tale/${choiceId}`);
-    // Scroll to top smoothly
-    window.scrollTo({ top: 0, behavior: 'smooth' });
-  };
+  // Navigate to the new tale - URL is the source of truth
+  const handleChoiceClick = (choiceId: string) => goToTale(choiceId);
 
   // Handler for when a node is clicked in the StoryGraph
-  const handleNodeClick = (nodeId: string) => {
-    navigate(`/tale/${nodeId}`);
-    window.scrollTo({ top: 0, behavior: 'smooth' });
-  };
+  const handleNodeClick = (nodeId: string) => goToTale(nodeId);
 
   // Handler for when ContributionForm successfully creates a new tale
   const handleContributionSuccess = (newTaleId?: string) => {
     // Invalidate queries to refresh the data
     queryClient.invalidateQueries({ queryKey: ['tale', id] });
+    queryClient.invalidateQueries({ queryKey: ['taleChoices', id] });
+    // Refreshes the story map so the new node shows up
     queryClient.invalidateQueries({ queryKey: ['storyMap'] });
-    
-    // Re-fetch the story map to show the new node
-    const fetchMapData = async () => {
-      if (!id) return;
-      try {
-        const mapData = await getStoryMap(id);
-        setStoryMapData(mapData);
-      } catch (error) {
-        console.error('Failed to fetch story map:', error);
-      }
-    };
-    fetchMapData();
 
     // Optionally navigate to the new tale if provided
     if (newTaleId) {
@@ -324,8 +403,6 @@ export default function ReaderView() {
     }
   };
 
-  const paragraphs = data.content.split('\n\n').filter(p => p.trim());
-
   return (
     <motion.div
       initial="initial"
@@ -367,6 +444,15 @@ export default function ReaderView() {
                     Archived
                   </span>
                 )}
+                {isCanonChapter && !data.isDeleted && (
+                  <span
+                    className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-500/10 border border-amber-500/20 text-amber-400 text-xs font-medium"
+                    title="This chapter is on the most-voted path"
+                  >
+                    <Crown className="w-3 h-3" />
+                    Canon
+                  </span>
+                )}
               </div>
               <div className="flex items-center justify-center gap-2 text-xs md:text-sm text-slate-500">
                 <span>by {data.authorName || 'Anonymous'}</span>
@@ -379,26 +465,100 @@ export default function ReaderView() {
               </div>
             </div>
 
-            {/* Right: Map Toggle */}
+            {/* Right: Canon Mode & Map Toggles */}
+            <div className="flex items-center gap-1">
+              <button
+                onClick={toggleCanonMode}
+                className={`
+                  flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-medium transition-all
+                  ${isCanonMode
+                    ? 'bg-amber-500/20 text-amber-300 border border-amber-500/30'
+                    : 'text-slate-400 hover:text-white hover:bg-white/5'
+                  }
+                `}
+                title="Automatically follow the most-voted path"
+              >
+                <Crown className="w-4 h-4" />
+                <span className="hidden sm:inline">Canon</span>
+              </button>
+              <button
+                onClick={() => setIsGraphOpen(!isGraphOpen)}
+                className={`
+                  flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-medium transition-all
+                  ${isGraphOpen 
+                    ? 'bg-violet-500/20 text-violet-300 border border-violet-500/30' 
+                    : 'text-slate-400 hover:text-white hover:bg-white/5'
+                  }
+                `}
+              >
+                <GitBranch className="w-4 h-4" />
+                <span className="hidden sm:inline">Map</span>
+              </button>
+            </div>
+          </div>
+        </GlassContainer>
+      </motion.header>
+
+      {/* ===== OFFLINE BANNER ===== */}
+      {data?.fromOfflineCache && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="max-w-2xl mx-auto mt-4 px-4"
+        >
+          <div className="flex items-center gap-3 px-4 py-3 rounded-xl bg-amber-500/10 border border-amber-500/30 text-amber-300 text-sm">
+            <WifiOff className="w-4 h-4 flex-shrink-0" />
+            <span>You're offline. Reading a saved copy of this chapter; votes and new branches will be back when you reconnect.</span>
+          </div>
+        </motion.div>
+      )}
+
+      {/* ===== CANON MODE BANNER ===== */}
+      {isCanonMode && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="max-w-2xl mx-auto mt-4 px-4"
+        >
+          <div className="flex flex-wrap items-center gap-3 px-4 py-3 rounded-xl bg-amber-500/10 border border-amber-500/20 text-sm">
+            <Crown className="w-4 h-4 flex-shrink-0 text-amber-400" />
+            <span className="flex-1 text-amber-200/90">Auto-reading the canon: the most-voted choice opens at the end of each chapter.</span>
+            <button
+              onClick={() => openExport('golden')}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-amber-300 hover:bg-amber-500/10 transition-colors"
+            >
+              <FileText className="w-3.5 h-3.5" />
+              Export canon
+            </button>
             <button
-              onClick={() => setIsGraphOpen(!isGraphOpen)}
-              className={`
-                flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-medium transition-all
-                ${isGraphOpen 
-                  ? 'bg-violet-500/20 text-violet-300 border border-violet-500/30' 
-                  : 'text-slate-400 hover:text-white hover:bg-white/5'
-                }
-              `}
+              onClick={toggleCanonMode}
+              className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 transition-colors"
+              title="Exit canon mode"
             >
-              <GitBranch className="w-4 h-4" />
-              <span className="hidden sm:inline">Map</span>
+              <X className="w-3.5 h-3.5" />
             </button>
           </div>
-        </GlassContainer>
-      </motion.header>
+        </motion.div>
+      )}
+
+      {/* ===== READING PATH BREADCRUMB ===== */}
+      {readingPath.length > 1 && (
+        <ReadingPathBreadcrumb
+          path={readingPath}
+          currentTaleId={currentTaleId}
+          onNavigate={handleNodeClick}
+          isReadingFromStart={isReadingFromStart}
+          onToggleReadFromStart={() => setIsReadingFromStart(!isReadingFromStart)}
+        />
+      )}
 
       {/* ===== MAIN READING SURFACE ===== */}
       <main className="px-4 py-12 md:py-16">
+        {/* ===== STORY SO FAR (continuous mode) ===== */}
+        {isReadingFromStart && readingPath.length > 1 && (
+          <StorySoFar taleIds={readingPath.slice(0, -1).map((chapter) => chapter.id)} />
+        )}
+
         <AnimatePresence mode="wait">
           <motion.article
             key={currentTaleId}
@@ -407,19 +567,27 @@ export default function ReaderView() {
             animate="visible"
             className="max-w-2xl mx-auto"
           >
+            {/* Chapter heading when reading the whole path */}
+            {isReadingFromStart && readingPath.length > 1 && (
+              <div className="flex items-center gap-4 mb-8">
+                <div className="flex-1 h-px bg-gradient-to-r from-transparent to-violet-500/40" />
+                <div className="text-center">
+                  <p className="text-xs uppercase tracking-widest text-violet-400/70">Chapter {readingPath.length}</p>
+                  <p className="font-serif text-slate-200">{data.title || 'Untitled'}</p>
+                </div>
+                <div className="flex-1 h-px bg-gradient-to-l from-transparent to-violet-500/40" />
+              </div>
+            )}
+
             {/* The Book Content */}
             <div className="prose prose-invert prose-xl max-w-none">
               <div 
                 className={`font-serif text-xl md:text-2xl leading-loose space-y-8 tracking-wide ${data.isDeleted ? 'text-slate-500' : 'text-slate-200'}`}
                 style={{ fontFamily: "'Lora', Georgia, serif", lineHeight: '2' }}
               >
-                {paragraphs.map((paragraph, index) => (
+                {contentBlocks.map((block, index) => (
                   <motion.div key={index} variants={paragraphVariants}>
-                    {index === 0 ? (
-                      <DropCapParagraph text={paragraph} />
-                    ) : (
-                      <p>{paragraph}</p>
-                    )}
+                    <RichTextBlock block={block} dropCap={index === 0} />
                   </motion.div>
                 ))}
               </div>
@@ -428,20 +596,31 @@ export default function ReaderView() {
             {/* ===== APPRECIATION BAR ===== */}
             <StoryActionBar
               taleId={data.id}
-              votes={(data.votes ?? 0) + (optimisticVotes[data.id] ?? 0)}
-              hasVoted={data.hasVoted || votedTales.has(data.id)}
+              votes={data.votes ?? 0}
+              hasVoted={data.hasVoted}
               authorName={data.authorName}
               authorId={data.authorId}
               createdAt={data.createdAt}
               isDeleted={data.isDeleted}
               isLeafNode={!data.choices || data.choices.length === 0}
-              onVote={(taleId) => handleVote({ stopPropagation: () => {} } as React.MouseEvent, taleId)}
+              onToggleVote={(taleId) => requestVote(taleId, data.hasVoted)}
+              onSaveOffline={() => saveOfflineMutation.mutate(data.id)}
+              isSavingOffline={saveOfflineMutation.isPending}
+              onExport={() => openExport('current')}
+              isStoryMuted={isStoryMuted}
+              onToggleStoryMute={user && storyRootId ? toggleStoryMute : undefined}
             />
           </motion.article>
         </AnimatePresence>
 
+        {/* ===== CANON AUTO-ADVANCE ===== */}
+        {isCanonMode && storyMapData && (
+          // Keyed by chapter so each one starts a fresh countdown, out of view
+          <CanonAutoAdvance key={currentTaleId} nextChapter={nextCanonChapter} onAdvance={handleCanonAdvance} />
+        )}
+
         {/* ===== CHOICES ENGINE (Game HUD) ===== */}
-        {displayedChoices && displayedChoices.length > 0 && (
+        {hasBranches && (
           <motion.section
             initial={{ opacity: 0, y: 40 }}
             animate={{ opacity: 1, y: 0 }}
@@ -463,105 +642,77 @@ export default function ReaderView() {
               </p>
             </div>
 
-            {/* Choices Grid */}
-            <motion.div
-              variants={choiceContainerVariants}
-              initial="hidden"
-              animate="visible"
-              className="grid grid-cols-1 md:grid-cols-2 gap-4"
-            >
-              {displayedChoices.map((choice, index) => (
-                <motion.div
-                  key={choice.id}
-                  variants={choiceVariants}
-                  custom={index}
-                >
+            {/* Sort & Filter Controls */}
+            <div className="flex flex-wrap items-center justify-center gap-2 mb-6">
+              <div className="flex flex-wrap items-center gap-1 p-1 bg-slate-800/50 rounded-lg border border-slate-700/50">
+                {CHOICE_SORT_OPTIONS.map(({ value, label, icon: Icon }) => (
                   <button
-                    onClick={() => handleChoiceClick(choice.id)}
-                    className="w-full text-left group"
+                    key={value}
+                    onClick={() => setChoiceSort(value)}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                      choiceSort === value
+                        ? 'bg-violet-600 text-white shadow-lg shadow-violet-500/25'
+                        : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/50'
+                    }`}
                   >
-                    <GlassContainer
-                      blur="md"
-                      className="p-6 h-full cursor-pointer bg-slate-900/60 border-white/5 hover:border-violet-500/30 hover:bg-slate-800/60 transition-all duration-300"
-                    >
-                      {/* Choice Title - Primary Action Header */}
-                      <h3 className="font-bold text-lg text-violet-200 mb-2 group-hover:text-violet-100 transition-colors">
-                        {choice.title || `Option ${index + 1}`}
-                      </h3>
-                      
-                      {/* Preview Text - Secondary Body */}
-                      <p className="text-sm text-slate-400 leading-relaxed mb-4 line-clamp-2">
-                        {choice.previewText || 'Continue reading...'}
-                      </p>
-                      
-                      {/* Vote Count */}
-                      <div className="flex items-center justify-between">
-                        <motion.div
-                          onClick={(e) => !data.isDeleted && handleVote(e, choice.id)}
-                          whileTap={!data.isDeleted ? { scale: 1.2 } : undefined}
-                          className={`flex items-center gap-2 text-sm font-sans transition-colors ${
-                            data.isDeleted
-                              ? 'text-slate-600 cursor-not-allowed'
-                              : votedTales.has(choice.id)
-                                ? 'text-amber-400 cursor-pointer'
-                                : 'text-slate-500 hover:text-amber-400 cursor-pointer'
-                          }`}
-                          title={data.isDeleted ? 'Cannot vote on archived content' : undefined}
-                        >
-                          <Heart 
-                            className="w-4 h-4" 
-                            fill={votedTales.has(choice.id) ? 'currentColor' : 'none'}
-                          />
-                          <span>
-                            {choice.votes + (optimisticVotes[choice.id] ?? 0)}{' '}
-                            {choice.votes + (optimisticVotes[choice.id] ?? 0) === 1 ? 'vote' : 'votes'}
-                          </span>
-                        </motion.div>
-                        
-                        {/* Arrow indicator */}
-                        <div className="text-slate-600 group-hover:text-violet-400 group-hover:translate-x-1 transition-all">
-                          →
-                        </div>
-                      </div>
-                    </GlassContainer>
+                    <Icon className="w-4 h-4" />
+                    {label}
                   </button>
-                </motion.div>
-              ))}
-            </motion.div>
-
-            {/* Show More Choices Button */}
-            {totalChoices > displayedChoices.length && (
-              <motion.div
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                className="flex justify-center mt-6"
-              >
+                ))}
+              </div>
+              {user && (
                 <button
-                  onClick={handleLoadMoreChoices}
-                  disabled={isLoadingMoreChoices}
-                  className="flex items-center gap-2 px-5 py-2.5 rounded-xl bg-violet-600/20 hover:bg-violet-600/30 border border-violet-500/30 text-violet-300 hover:text-violet-200 text-sm font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={() => setIsFollowedOnly(!isFollowedOnly)}
+                  aria-pressed={isFollowedOnly}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm font-medium transition-all ${
+                    isFollowedOnly
+                      ? 'bg-violet-500/20 text-violet-300 border-violet-500/30'
+                      : 'text-slate-400 border-slate-700/50 hover:text-slate-200 hover:bg-slate-700/50'
+                  }`}
+                  title="Only show choices by authors you follow"
                 >
-                  {isLoadingMoreChoices ? (
-                    <>
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                      Loading...
-                    </>
-                  ) : (
-                    <>
-                      Show more options...
-                      <span className="text-violet-400/70">
-                        ({displayedChoices.length} of {totalChoices})
-                      </span>
-                    </>
-                  )}
+                  <Users className="w-4 h-4" />
+                  Following
                 </button>
-              </motion.div>
+              )}
+            </div>
+
+            {isChoicesLoading && displayedChoices.length === 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {[1, 2].map((i) => (
+                  <div key={i} className="h-40 rounded-2xl bg-white/5 animate-pulse" />
+                ))}
+              </div>
             )}
+
+            {!isChoicesLoading && displayedChoices.length === 0 && (
+              <p className="text-center text-sm text-slate-500 font-serif italic py-8">
+                {followedOnly
+                  ? 'None of the authors you follow have written a choice here yet.'
+                  : choiceSort === 'unexplored'
+                    ? 'Every choice here has already been continued.'
+                    : 'No choices to show.'}
+              </p>
+            )}
+
+            {/* Choices Grid */}
+            <ChoiceList
+              choices={displayedChoices}
+              totalCount={totalChoices}
+              hasNextPage={!!hasMoreChoices}
+              isFetchingNextPage={isLoadingMoreChoices}
+              hasLoadMoreError={hasChoicesPageError}
+              onLoadMore={() => fetchMoreChoices()}
+              isVotingDisabled={data.isDeleted}
+              pendingVoteId={voteMutation.isPending ? voteMutation.variables?.taleId : undefined}
+              onSelect={handleChoiceClick}
+              onToggleVote={requestVote}
+            />
           </motion.section>
         )}
 
         {/* ===== END OF STORY CTA ===== */}
-        {(!displayedChoices || displayedChoices.length === 0) && (
+        {!hasBranches && (
           <motion.section
             initial={{ opacity: 0, y: 30 }}
             animate={{ opacity: 1, y: 0 }}
@@ -672,6 +823,8 @@ export default function ReaderView() {
                   currentTaleId={currentTaleId}
                   isLoading={isMapLoading}
                   onNodeClick={handleNodeClick}
+                  onExpandNode={expandMapMutation.mutate}
+                  expandingNodeId={expandMapMutation.isPending ? expandMapMutation.variables : null}
                 />
               </div>
             </GlassContainer>
@@ -693,6 +846,16 @@ export default function ReaderView() {
         </motion.button>
       )}
 
+      {/* Export Modal */}
+      <ExportStoryModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        storyMap={storyMapData}
+        currentTaleId={currentTaleId}
+        source={exportSource}
+        onSourceChange={setExportSource}
+      />
+
       {/* Login Prompt Modal */}
       <Modal
         isOpen={showLoginPrompt}
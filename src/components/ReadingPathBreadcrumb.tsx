@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronRight, ChevronsLeftRight, BookOpenText, BookOpen } from 'lucide-react';
+
+export interface PathChapter {
+  id: string;
+  label: string;
+}
+
+interface ReadingPathBreadcrumbProps {
+  path: PathChapter[];
+  currentTaleId: string;
+  onNavigate: (taleId: string) => void;
+  isReadingFromStart: boolean;
+  onToggleReadFromStart: () => void;
+}
+
+// Number of chapters shown at the end of the trail while collapsed
+const COLLAPSED_TAIL = 2;
+
+export default function ReadingPathBreadcrumb({
+  path,
+  currentTaleId,
+  onNavigate,
+  isReadingFromStart,
+  onToggleReadFromStart,
+}: ReadingPathBreadcrumbProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  // Collapse long trails to: root › … › last chapters
+  const canCollapse = path.length > COLLAPSED_TAIL + 2;
+  const hiddenCount = canCollapse && !isExpanded ? path.length - COLLAPSED_TAIL - 1 : 0;
+  const visible = hiddenCount > 0
+    ? [path[0], ...path.slice(path.length - COLLAPSED_TAIL)]
+    : path;
+
+  return (
+    <motion.nav
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      aria-label="Reading path"
+      className="max-w-2xl mx-auto mt-6 px-4"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <ol className="flex flex-wrap items-center gap-1 text-xs text-slate-500 min-w-0">
+          {visible.map((chapter, index) => (
+            <li key={chapter.id} className="flex items-center gap-1 min-w-0">
+              {index > 0 && <ChevronRight className="w-3 h-3 flex-shrink-0 text-slate-600" />}
+              {hiddenCount > 0 && index === 1 && (
+                <>
+                  <button
+                    onClick={() => setIsExpanded(true)}
+                    className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-white/5 hover:text-slate-300 transition-colors"
+                    title={`Show ${hiddenCount} more ${hiddenCount === 1 ? 'chapter' : 'chapters'}`}
+                  >
+                    <ChevronsLeftRight className="w-3 h-3" />
+                    {hiddenCount}
+                  </button>
+                  <ChevronRight className="w-3 h-3 flex-shrink-0 text-slate-600" />
+                </>
+              )}
+              {chapter.id === currentTaleId ? (
+                <span className="truncate max-w-[10rem] text-violet-300 font-medium" aria-current="page">
+                  {chapter.label}
+                </span>
+              ) : (
+                <button
+                  onClick={() => onNavigate(chapter.id)}
+                  className="truncate max-w-[10rem] hover:text-violet-300 transition-colors"
+                >
+                  {chapter.label}
+                </button>
+              )}
+            </li>
+          ))}
+          {canCollapse && isExpanded && (
+            <li>
+              <button
+                onClick={() => setIsExpanded(false)}
+                className="ml-1 px-1.5 py-0.5 rounded text-slate-600 hover:text-slate-300 hover:bg-white/5 transition-colors"
+              >
+                Collapse
+              </button>
+            </li>
+          )}
+        </ol>
+
+        <button
+          onClick={onToggleReadFromStart}
+          className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
+            isReadingFromStart
+              ? 'bg-violet-500/20 text-violet-300 border border-violet-500/30'
+              : 'text-slate-400 hover:text-white hover:bg-white/5 border border-transparent'
+          }`}
+        >
+          {isReadingFromStart ? <BookOpen className="w-3.5 h-3.5" /> : <BookOpenText className="w-3.5 h-3.5" />}
+          {isReadingFromStart ? 'This chapter only' : 'Read from the beginning'}
+        </button>
+      </div>
+    </motion.nav>
+  );
+}
@@ -0,0 +1,101 @@
+import { Fragment, useMemo, type ReactNode } from 'react';
+import {
+  parseRichText,
+  splitFirstLetter,
+  type InlineNode,
+  type RichTextBlock as RichTextBlockData,
+} from '../lib/richText';
+import { cn } from '../lib/utils';
+
+const renderInline = (nodes: InlineNode[]): ReactNode =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'bold':
+        return <strong key={index} className="font-bold">{renderInline(node.children)}</strong>;
+      case 'italic':
+        return <em key={index} className="italic">{renderInline(node.children)}</em>;
+      default:
+        return <Fragment key={index}>{node.text}</Fragment>;
+    }
+  });
+
+interface RichTextBlockProps {
+  block: RichTextBlockData;
+  // Render the first letter of a paragraph as a drop cap
+  dropCap?: boolean;
+}
+
+// A single parsed block; exported so the reader can animate blocks individually
+export function RichTextBlock({ block, dropCap = false }: RichTextBlockProps) {
+  if (block.type === 'sceneBreak') {
+    return (
+      <p role="separator" className="text-center text-violet-400/60 tracking-[0.75em] select-none">
+        ✦ ✦ ✦
+      </p>
+    );
+  }
+
+  if (block.type === 'blockquote') {
+    return (
+      <blockquote className="border-l-2 border-violet-500/40 pl-6 italic opacity-90">
+        {renderInline(block.children)}
+      </blockquote>
+    );
+  }
+
+  const split = dropCap ? splitFirstLetter(block.children) : null;
+  if (split) {
+    return (
+      <p className="first-paragraph">
+        <span className="float-left text-6xl md:text-7xl font-serif font-bold text-violet-400 mr-3 mt-1 leading-none select-none">
+          {split.letter}
+        </span>
+        {renderInline(split.rest)}
+      </p>
+    );
+  }
+
+  return <p>{renderInline(block.children)}</p>;
+}
+
+interface RichTextProps {
+  content: string;
+  className?: string;
+  dropCap?: boolean;
+}
+
+// Full chapter rendering, one element per block
+export function RichText({ content, className, dropCap = false }: RichTextProps) {
+  const blocks = useMemo(() => parseRichText(content), [content]);
+
+  return (
+    <div className={className}>
+      {blocks.map((block, index) => (
+        <RichTextBlock key={index} block={block} dropCap={dropCap && index === 0} />
+      ))}
+    </div>
+  );
+}
+
+interface RichTextSnippetProps {
+  content: string;
+  className?: string;
+}
+
+// Compact single-flow rendering for previews and search results (works with line-clamp)
+export function RichTextSnippet({ content, className }: RichTextSnippetProps) {
+  const blocks = useMemo(() => parseRichText(content), [content]);
+
+  return (
+    <p className={cn(className)}>
+      {blocks.map((block, index) => (
+        <Fragment key={index}>
+          {index > 0 && ' '}
+          {block.type === 'sceneBreak' ? '✦' : renderInline(block.children)}
+        </Fragment>
+      ))}
+    </p>
+  );
+}
+
+export default RichText;
@@ -6,6 +6,7 @@ import { Navbar } from './ui/Navbar';
 import { GlassContainer } from './ui/GlassContainer';
 import { Button } from './ui/Button';
 import { searchTales, type SearchResult } from '../services/api';
+import { RichTextSnippet } from './RichText';
 import { supabase } from '../lib/supabase';
 import type { User } from '@supabase/supabase-js';
 
@@ -171,9 +172,10 @@ export default function SearchView() {
                     <h3 className="text-lg font-semibold text-white mb-2">
                       {result.title || 'Untitled Tale'}
                     </h3>
-                    <p className="text-slate-400 text-sm line-clamp-3 mb-3">
-                      {result.content}
-                    </p>
+                    <RichTextSnippet
+                      content={result.content}
+                      className="text-slate-400 text-sm line-clamp-3 mb-3"
+                    />
                     {result.authorName && (
                       <p className="text-xs text-violet-400">
                         by {result.authorName}
@@ -1,5 +1,5 @@
 import { motion } from 'framer-motion';
-import { Heart, Share2 } from 'lucide-react';
+import { Heart, Share2, Download, Loader2, BookDown, Bell, BellOff } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { useToast } from './ui/Toast';
 
@@ -12,7 +12,14 @@ interface StoryActionBarProps {
   createdAt: string;
   isDeleted?: boolean;
   isLeafNode?: boolean;
-  onVote: (taleId: string) => void;
+  // Casts the vote, or retracts it when hasVoted is already true
+  onToggleVote: (taleId: string) => void;
+  onSaveOffline?: () => void;
+  isSavingOffline?: boolean;
+  onExport?: () => void;
+  // Muting silences notifications from the whole story, not just this chapter
+  isStoryMuted?: boolean;
+  onToggleStoryMute?: () => void;
 }
 
 // Helper to format date
@@ -34,14 +41,19 @@ export default function StoryActionBar({
   createdAt,
   isDeleted = false,
   isLeafNode = false,
-  onVote,
+  onToggleVote,
+  onSaveOffline,
+  isSavingOffline = false,
+  onExport,
+  isStoryMuted = false,
+  onToggleStoryMute,
 }: StoryActionBarProps) {
   const { addToast } = useToast();
 
   const handleVoteClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (!isDeleted && !hasVoted) {
-      onVote(taleId);
+    if (!isDeleted) {
+      onToggleVote(taleId);
     }
   };
 
@@ -51,6 +63,23 @@ export default function StoryActionBar({
     addToast('Story link copied to clipboard.', 'success');
   };
 
+  const handleSaveOfflineClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onSaveOffline && !isSavingOffline) {
+      onSaveOffline();
+    }
+  };
+
+  const handleExportClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onExport?.();
+  };
+
+  const handleMuteClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onToggleStoryMute?.();
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -63,14 +92,15 @@ export default function StoryActionBar({
         {/* Left Side: Vote Button */}
         <motion.button
           onClick={handleVoteClick}
-          whileTap={!isDeleted && !hasVoted ? { scale: 1.15 } : undefined}
+          aria-pressed={hasVoted}
+          whileTap={!isDeleted ? { scale: 1.15 } : undefined}
           disabled={isDeleted}
           className={`
             flex items-center gap-2 px-4 py-2 rounded-xl transition-all duration-300
             ${isDeleted
               ? 'text-slate-600 cursor-not-allowed'
               : hasVoted
-                ? 'text-amber-400 bg-amber-500/10 cursor-default glow-gold'
+                ? 'text-amber-400 bg-amber-500/10 hover:bg-amber-500/15 cursor-pointer glow-gold'
                 : 'text-slate-400 hover:text-amber-400 hover:bg-amber-500/10 cursor-pointer'
             }
           `}
@@ -78,7 +108,7 @@ export default function StoryActionBar({
             isDeleted 
               ? 'Cannot vote on archived content' 
               : hasVoted 
-                ? 'You appreciated this chapter' 
+                ? 'You appreciated this chapter (click to undo)' 
                 : 'Show appreciation for this chapter'
           }
         >
@@ -127,6 +157,49 @@ export default function StoryActionBar({
           >
             <Share2 className="w-5 h-5" />
           </motion.button>
+          {onSaveOffline && (
+            <motion.button
+              onClick={handleSaveOfflineClick}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              disabled={isSavingOffline}
+              className="flex items-center justify-center p-2 rounded-xl text-slate-400 hover:text-violet-400 hover:bg-violet-500/10 transition-all duration-300 disabled:cursor-wait"
+              title="Save this branch for offline"
+            >
+              {isSavingOffline ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <Download className="w-5 h-5" />
+              )}
+            </motion.button>
+          )}
+          {onExport && (
+            <motion.button
+              onClick={handleExportClick}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="flex items-center justify-center p-2 rounded-xl text-slate-400 hover:text-violet-400 hover:bg-violet-500/10 transition-all duration-300"
+              title="Export as EPUB, Markdown or text"
+            >
+              <BookDown className="w-5 h-5" />
+            </motion.button>
+          )}
+          {onToggleStoryMute && (
+            <motion.button
+              onClick={handleMuteClick}
+              aria-pressed={isStoryMuted}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className={`flex items-center justify-center p-2 rounded-xl transition-all duration-300 ${
+                isStoryMuted
+                  ? 'text-violet-400 bg-violet-500/10 hover:bg-violet-500/15'
+                  : 'text-slate-400 hover:text-violet-400 hover:bg-violet-500/10'
+              }`}
+              title={isStoryMuted ? 'Unmute notifications from this story' : 'Mute notifications from this story'}
+            >
+              {isStoryMuted ? <BellOff className="w-5 h-5" /> : <Bell className="w-5 h-5" />}
+            </motion.button>
+          )}
         </div>
       </div>
 
@@ -1,77 +1,135 @@
 import { useMemo, useEffect } from 'react';
 import { motion } from 'framer-motion';
+import { useQuery } from '@tanstack/react-query';
 import ReactFlow, {
   type Node,
   type Edge,
   Background,
   Controls,
+  MiniMap,
   useNodesState,
   useEdgesState,
   ConnectionLineType,
   useReactFlow,
 } from 'reactflow';
-import dagre from 'dagre';
-import { Map as MapIcon, Maximize2, Minimize2 } from 'lucide-react';
+import {
+  Map as MapIcon,
+  Maximize2,
+  Minimize2,
+  Search,
+  Eye,
+  EyeOff,
+  Focus,
+  Workflow,
+  Network,
+  Orbit,
+  GitCommitVertical,
+  Flame,
+} from 'lucide-react';
 import { useState } from 'react';
 import 'reactflow/dist/style.css';
-import type { StoryMapResponse } from '../services/api';
+import { getStoryMapAnalytics, type StoryMapNodeType, type StoryMapResponse } from '../services/api';
+import { processGoldenPath, getGoldenPathNodeIds, getPathToTale, getDescendantIds, getHiddenChildCounts } from '../lib/storyPath';
+import { getMapLayout, loadMapLayoutKind, saveMapLayoutKind, type MapLayoutKind } from '../lib/mapLayout';
+import {
+  getNodeColors,
+  getMapHeat,
+  getHeatColor,
+  HEAT_STOPS,
+  SCALE_GRADIENT,
+  UNKNOWN_COLOR,
+  type MapColorMode,
+  type MapOverlayMode,
+} from '../lib/mapColors';
+import { useAnimatedPositions } from '../hooks/useAnimatedPositions';
 import StoryNode, { type StoryNodeData } from './StoryNode';
+import LaneEdge from './LaneEdge';
+import MapExportMenu from './MapExportMenu';
+import type { StoryMapView } from '../lib/mapExport';
 
-// Register custom node types
+// Register custom node and edge types
 const nodeTypes = {
   storyNode: StoryNode,
 };
 
-// Edge type for processing
-interface EdgeData {
-  sourceId: string;
-  targetId: string;
-  votes: number;
-}
+const edgeTypes = {
+  lane: LaneEdge,
+};
 
 interface StoryGraphProps {
   mapData?: StoryMapResponse | null;
   currentTaleId?: string;
   isLoading?: boolean;
   onNodeClick?: (nodeId: string) => void;
+  // Loads the unloaded children of a frontier node in a depth-limited map
+  onExpandNode?: (nodeId: string) => void;
+  expandingNodeId?: string | null;
 }
 
-const dagreGraph = new dagre.graphlib.Graph();
-dagreGraph.setDefaultEdgeLabel(() => ({}));
-
-const getLayoutedElements = (nodes: Node[], edges: Edge[]) => {
-  // Create a fresh graph for each layout
-  const g = new dagre.graphlib.Graph();
-  g.setDefaultEdgeLabel(() => ({}));
-  g.setGraph({ rankdir: 'LR', nodesep: 60, ranksep: 120 });
-
-  nodes.forEach((node) => {
-    // Use larger dimensions for pill-shaped custom nodes
-    g.setNode(node.id, { width: 180, height: 50 });
-  });
+const NODE_TYPE_FILTERS: { value: StoryMapNodeType; label: string }[] = [
+  { value: 'ROOT', label: 'Root' },
+  { value: 'BRANCH', label: 'Branch' },
+  { value: 'LEAF', label: 'Ending' },
+];
+
+const LAYOUT_OPTIONS: { value: MapLayoutKind; label: string; icon: typeof MapIcon }[] = [
+  { value: 'horizontal', label: 'Left to right', icon: Workflow },
+  { value: 'vertical', label: 'Top to bottom', icon: Network },
+  { value: 'radial', label: 'Radial', icon: Orbit },
+  { value: 'lanes', label: 'Lanes', icon: GitCommitVertical },
+];
+
+const COLOR_MODE_OPTIONS: { value: MapColorMode; label: string }[] = [
+  { value: 'status', label: 'Status' },
+  { value: 'votes', label: 'Votes' },
+  { value: 'recency', label: 'Date' },
+  { value: 'author', label: 'Author' },
+];
+
+const OVERLAY_OPTIONS: { value: MapOverlayMode; label: string }[] = [
+  { value: 'traffic', label: 'Traffic' },
+  { value: 'votes', label: 'Votes' },
+  { value: 'activity', label: 'Activity' },
+];
+
+// Edge shape per layout; radial edges curve between rings instead of stepping
+const LAYOUT_EDGE_TYPES: Record<MapLayoutKind, string> = {
+  horizontal: 'smoothstep',
+  vertical: 'smoothstep',
+  radial: 'default',
+  lanes: 'lane',
+};
 
-  edges.forEach((edge) => {
-    g.setEdge(edge.source, edge.target);
-  });
+// How long nodes take to glide to their new spots when the layout changes
+const LAYOUT_TRANSITION_MS = 450;
 
-  dagre.layout(g);
+const getMiniMapNodeColor = (node: Node<StoryNodeData>) => {
+  if (node.data.isCurrent) return '#8b5cf6';
+  if (node.data.isDimmed) return '#1e293b';
+  if (node.data.accentColor) return node.data.accentColor;
+  if (node.data.isOnWinnerPath) return '#fbbf24';
+  if (node.data.isOnCurrentPath) return '#c4b5fd';
+  return '#475569';
+};
 
-  const layoutedNodes = nodes.map((node) => {
-    const nodeWithPosition = g.node(node.id);
+// Edge style generators
+const getEdgeStyle = (isWinner: boolean, isOnCurrentPath: boolean, isDimmed: boolean): React.CSSProperties => {
+  if (isDimmed) {
     return {
-      ...node,
-      position: {
-        x: nodeWithPosition.x - 90,
-        y: nodeWithPosition.y - 25,
-      },
+      stroke: '#334155',
+      strokeWidth: 1,
+      opacity: 0.2,
     };
-  });
+  }
 
-  return { nodes: layoutedNodes, edges };
-};
+  if (isOnCurrentPath) {
+    // The reader's own path: bright and solid so it reads above the golden path
+    return {
+      stroke: '#e2e8f0',
+      strokeWidth: 3,
+    };
+  }
 
-// Edge style generators
-const getEdgeStyle = (isWinner: boolean): React.CSSProperties => {
   if (isWinner) {
     // Winner edge: Thick, Gold/Violet gradient
     return {
@@ -87,76 +145,94 @@ const getEdgeStyle = (isWinner: boolean): React.CSSProperties => {
   };
 };
 
-// Process edges to find the "Golden Path" (most voted edges from each node)
-// Handles ties: ALL edges with maxVotes become winners
-// Handles zero votes: If maxVotes === 0, no edges are winners
-const processGoldenPath = (
-  edges: EdgeData[]
-): Map<string, string> => {
-  // Group edges by source
-  const edgesBySource = new Map<string, EdgeData[]>();
-  
-  edges.forEach((edge) => {
-    const group = edgesBySource.get(edge.sourceId) || [];
-    group.push(edge);
-    edgesBySource.set(edge.sourceId, group);
-  });
-
-  // Find winner(s) for each source - supports ties
-  const winners = new Map<string, string>();
-  
-  edgesBySource.forEach((sourceEdges: EdgeData[], sourceId: string) => {
-    // Rule 1: Calculate maxVotes for this group
-    const maxVotes = Math.max(...sourceEdges.map((e: EdgeData) => e.votes));
-    
-    // Rule 1 (Zero Vote Check): If maxVotes === 0, no edges are winners
-    if (maxVotes === 0) {
-      return; // Skip this group - no winners
-    }
-    
-    // Rule 2 (Tie Check): Mark ALL edges with maxVotes as winners
-    sourceEdges.forEach((edge: EdgeData) => {
-      if (edge.votes === maxVotes) {
-        winners.set(`${sourceId}-${edge.targetId}`, edge.targetId);
-      }
-    });
-  });
-
-  return winners;
-};
-
 // Helper component to center view on current node
 function CenterOnCurrentNode({ 
   currentTaleId, 
-  nodes 
+  isCurrentNodeShown,
+  layoutKind,
 }: { 
   currentTaleId?: string; 
-  nodes: Node<StoryNodeData>[] 
+  isCurrentNodeShown: boolean;
+  layoutKind: MapLayoutKind;
 }) {
   const { fitView } = useReactFlow();
 
   useEffect(() => {
-    if (!currentTaleId || nodes.length === 0) return;
-
-    const currentNode = nodes.find(n => n.id === currentTaleId);
-    if (currentNode) {
-      // Small delay to ensure nodes are rendered
-      const timer = setTimeout(() => {
-        fitView({
-          nodes: [{ id: currentTaleId }],
-          padding: 2,
-          duration: 500,
-        });
-      }, 100);
-      return () => clearTimeout(timer);
-    }
-  }, [currentTaleId, nodes, fitView]);
+    if (!currentTaleId || !isCurrentNodeShown) return;
+
+    // Wait for the nodes to render (or finish gliding into a new layout)
+    const timer = setTimeout(() => {
+      fitView({
+        nodes: [{ id: currentTaleId }],
+        padding: 2,
+        duration: 500,
+      });
+    }, LAYOUT_TRANSITION_MS + 50);
+    return () => clearTimeout(timer);
+  }, [currentTaleId, isCurrentNodeShown, layoutKind, fitView]);
+
+  return null;
+}
+
+// Helper component to pan to the search match the reader stepped to
+function FocusOnNode({ nodeId }: { nodeId: string | null }) {
+  const { fitView } = useReactFlow();
+
+  useEffect(() => {
+    if (!nodeId) return;
+    fitView({ nodes: [{ id: nodeId }], padding: 2, duration: 400 });
+  }, [nodeId, fitView]);
 
   return null;
 }
 
-export default function StoryGraph({ mapData, currentTaleId, isLoading, onNodeClick }: StoryGraphProps) {
+// Maps above this size only render the nodes inside the viewport
+const VISIBLE_ELEMENTS_THRESHOLD = 300;
+
+export default function StoryGraph({
+  mapData,
+  currentTaleId,
+  isLoading,
+  onNodeClick,
+  onExpandNode,
+  expandingNodeId = null,
+}: StoryGraphProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  // Search & filter state
+  const [searchQuery, setSearchQuery] = useState('');
+  const [matchCursor, setMatchCursor] = useState(-1);
+  const [visibleTypes, setVisibleTypes] = useState<Set<StoryMapNodeType>>(
+    () => new Set(NODE_TYPE_FILTERS.map(({ value }) => value))
+  );
+  const [showDeleted, setShowDeleted] = useState(true);
+  const [dimUnrelated, setDimUnrelated] = useState(true);
+  const [layoutKind, setLayoutKind] = useState<MapLayoutKind>(loadMapLayoutKind);
+  const [colorMode, setColorMode] = useState<MapColorMode>('status');
+  // Heatmap overlay; the mode is kept while the overlay is switched off
+  const [isHeatmapOn, setIsHeatmapOn] = useState(false);
+  const [overlayMode, setOverlayMode] = useState<MapOverlayMode>('traffic');
+  // Analytics cover the whole story, so they're cached per root and survive navigating between chapters
+  const storyRootId = useMemo(
+    () => (mapData && currentTaleId ? getPathToTale(mapData.edges, currentTaleId)[0] : undefined),
+    [mapData, currentTaleId]
+  );
+  const needsAnalytics = isHeatmapOn && overlayMode !== 'votes' && !!storyRootId;
+
+  const {
+    data: analytics,
+    isLoading: isAnalyticsLoading,
+    isError: isAnalyticsError,
+  } = useQuery({
+    queryKey: ['storyMapAnalytics', storyRootId],
+    queryFn: () => getStoryMapAnalytics(storyRootId!),
+    enabled: needsAnalytics,
+    staleTime: 60 * 1000,
+  });
+
+  const changeLayout = (kind: MapLayoutKind) => {
+    setLayoutKind(kind);
+    saveMapLayoutKind(kind);
+  };
 
   // Handle node click to navigate to that tale
   const handleNodeClick = (_event: React.MouseEvent, node: Node<StoryNodeData>) => {
@@ -165,74 +241,217 @@ export default function StoryGraph({ mapData, currentTaleId, isLoading, onNodeCl
     }
   };
 
-  const { processedNodes, processedEdges } = useMemo(() => {
+  const layout = useMemo(
+    () => (mapData && mapData.nodes.length > 0 ? getMapLayout(mapData, layoutKind) : null),
+    [mapData, layoutKind]
+  );
+  const targetPositions = useMemo(() => layout?.positions ?? new Map(), [layout]);
+  const positions = useAnimatedPositions(targetPositions, LAYOUT_TRANSITION_MS);
+  const hiddenChildCounts = useMemo(
+    () => (mapData ? getHiddenChildCounts(mapData) : new Map<string, number>()),
+    [mapData]
+  );
+  const coloring = useMemo(() => (mapData ? getNodeColors(mapData, colorMode) : null), [mapData, colorMode]);
+  const heat = useMemo(
+    () => (mapData && isHeatmapOn ? getMapHeat(mapData, overlayMode, analytics) : null),
+    [mapData, isHeatmapOn, overlayMode, analytics]
+  );
+
+  // Where the current tale sits in the tree: its ancestors and everything below it
+  const { currentPathIds, relatedIds } = useMemo(() => {
+    if (!mapData || !currentTaleId || !mapData.nodes.some((node) => node.id === currentTaleId)) {
+      return { currentPathIds: new Set<string>(), relatedIds: null };
+    }
+    const pathIds = new Set(getPathToTale(mapData.edges, currentTaleId));
+    return {
+      currentPathIds: pathIds,
+      relatedIds: new Set([...pathIds, ...getDescendantIds(mapData.edges, currentTaleId)]),
+    };
+  }, [mapData, currentTaleId]);
+
+  const normalizedQuery = searchQuery.trim().toLowerCase();
+
+  const { layoutedNodes, layoutedEdges, searchMatches } = useMemo(() => {
     if (!mapData || !mapData.nodes || mapData.nodes.length === 0) {
       // Return empty arrays if no data
-      return { processedNodes: [], processedEdges: [] };
+      return { layoutedNodes: [], layoutedEdges: [], searchMatches: [] };
     }
 
     // Calculate the golden path (winning edges)
     const goldenPath = processGoldenPath(mapData.edges);
     
     // Track which nodes are on the winner path
-    const winnerNodes = new Set<string>();
-    goldenPath.forEach((targetId, edgeKey) => {
-      const sourceId = edgeKey.split('-')[0];
-      winnerNodes.add(sourceId);
-      winnerNodes.add(targetId);
+    const winnerNodes = getGoldenPathNodeIds(mapData.edges);
+
+    const isDimmed = (id: string) => dimUnrelated && !!relatedIds && !relatedIds.has(id);
+    const loadedChildCounts = new Map<string, number>();
+    mapData.edges.forEach((edge) => {
+      loadedChildCounts.set(edge.sourceId, (loadedChildCounts.get(edge.sourceId) ?? 0) + 1);
     });
+    const matches: string[] = [];
 
-    // Create React Flow nodes with custom node type
-    const nodes: Node<StoryNodeData>[] = mapData.nodes.map((node) => ({
-      id: node.id,
-      type: 'storyNode',
-      data: {
-        label: node.label || 'Untitled',
-        nodeType: node.type,
-        isCurrent: node.id === currentTaleId,
-        isOnWinnerPath: winnerNodes.has(node.id),
-        isDeleted: node.isDeleted ?? false,
-      },
-      position: { x: 0, y: 0 },
-    }));
-
-    // Create React Flow edges
+    const isCompact = layout?.kind === 'lanes';
+
+    // Create React Flow nodes with custom node type (positions are filled in below)
+    const nodes: Node<StoryNodeData>[] = mapData.nodes.map((node) => {
+      // The current tale always stays visible, whatever the filters
+      const isHidden =
+        node.id !== currentTaleId && (!visibleTypes.has(node.type) || (!showDeleted && node.isDeleted));
+      const isSearchMatch =
+        !!normalizedQuery && !isHidden && (node.label || 'Untitled').toLowerCase().includes(normalizedQuery);
+      if (isSearchMatch) matches.push(node.id);
+
+      return {
+        id: node.id,
+        type: 'storyNode',
+        hidden: isHidden,
+        data: {
+          label: node.label || 'Untitled',
+          nodeType: node.type,
+          isCurrent: node.id === currentTaleId,
+          isOnWinnerPath: winnerNodes.has(node.id),
+          isDeleted: node.isDeleted ?? false,
+          isOnCurrentPath: currentPathIds.has(node.id),
+          isDimmed: isDimmed(node.id) && !isSearchMatch,
+          isSearchMatch,
+          hiddenChildCount: onExpandNode ? hiddenChildCounts.get(node.id) : undefined,
+          isExpanding: node.id === expandingNodeId,
+          onExpand: onExpandNode,
+          isCompact,
+          labelOffset: layout?.labelOffsets?.get(node.id),
+          authorName: node.authorName,
+          createdAt: node.createdAt,
+          votes: node.votes,
+          childCount: node.childCount ?? loadedChildCounts.get(node.id) ?? 0,
+          accentColor: heat ? getHeatColor(heat.values.get(node.id) ?? 0) : coloring?.colors.get(node.id),
+        },
+        targetPosition: layout?.handles.get(node.id)?.target,
+        sourcePosition: layout?.handles.get(node.id)?.source,
+        position: layout?.positions.get(node.id) ?? { x: 0, y: 0 },
+      };
+    });
+
+    // Create React Flow edges (edges to hidden nodes are hidden by React Flow)
     const edges: Edge[] = mapData.edges.map((edge) => {
       const edgeKey = `${edge.sourceId}-${edge.targetId}`;
       const isWinner = goldenPath.has(edgeKey);
+      const isOnCurrentPath = currentPathIds.has(edge.sourceId) && currentPathIds.has(edge.targetId);
+      const isEdgeDimmed = isDimmed(edge.targetId);
+      // Under a heatmap, edges carry the intensity of the chapter they lead to
+      const edgeHeat = heat?.values.get(edge.targetId) ?? 0;
       
       return {
         id: `e-${edge.sourceId}-${edge.targetId}`,
         source: edge.sourceId,
         target: edge.targetId,
-        type: 'smoothstep',
-        style: getEdgeStyle(isWinner),
-        animated: isWinner,
-        label: edge.votes > 0 ? `${edge.votes}` : undefined,
+        type: LAYOUT_EDGE_TYPES[layout?.kind ?? 'horizontal'],
+        style: heat
+          ? { stroke: getHeatColor(edgeHeat), strokeWidth: 1 + edgeHeat * 5, opacity: isEdgeDimmed ? 0.2 : 1 }
+          : getEdgeStyle(isWinner, isOnCurrentPath, isEdgeDimmed),
+        animated: !heat && isWinner && !isEdgeDimmed,
+        // The lanes view is too dense for vote labels
+        label: edge.votes > 0 && !isEdgeDimmed && !isCompact ? `${edge.votes}` : undefined,
         labelStyle: { fill: '#94a3b8', fontSize: 10 },
         labelBgStyle: { fill: 'rgba(15, 23, 42, 0.8)' },
         labelBgPadding: [4, 2] as [number, number],
       };
     });
 
-    return { processedNodes: nodes, processedEdges: edges };
-  }, [mapData, currentTaleId]);
-
-  const { nodes: layoutedNodes, edges: layoutedEdges } = useMemo(() => {
-    if (processedNodes.length === 0) {
-      return { nodes: [], edges: [] };
-    }
-    return getLayoutedElements(processedNodes, processedEdges);
-  }, [processedNodes, processedEdges]);
+    return { layoutedNodes: nodes, layoutedEdges: edges, searchMatches: matches };
+  }, [
+    mapData,
+    currentTaleId,
+    layout,
+    hiddenChildCounts,
+    coloring,
+    heat,
+    currentPathIds,
+    relatedIds,
+    normalizedQuery,
+    visibleTypes,
+    showDeleted,
+    dimUnrelated,
+    onExpandNode,
+    expandingNodeId,
+  ]);
+
+  // Kept apart from the node data so layout transitions only move nodes around
+  const positionedNodes = useMemo(
+    () => layoutedNodes.map((node) => ({ ...node, position: positions.get(node.id) ?? node.position })),
+    [layoutedNodes, positions]
+  );
 
-  const [nodes, setNodes, onNodesChange] = useNodesState(layoutedNodes);
+  const [nodes, setNodes, onNodesChange] = useNodesState(positionedNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(layoutedEdges);
 
   // Update nodes and edges when layouted elements change
   useEffect(() => {
-    setNodes(layoutedNodes);
+    setNodes(positionedNodes);
     setEdges(layoutedEdges);
-  }, [layoutedNodes, layoutedEdges, setNodes, setEdges]);
+  }, [positionedNodes, layoutedEdges, setNodes, setEdges]);
+
+  // The image export draws exactly what's on screen: filtered, dimmed and coloured
+  const getExportView = (): StoryMapView => {
+    const shownIds = new Set(layoutedNodes.filter((node) => !node.hidden).map((node) => node.id));
+    return {
+      nodes: layoutedNodes
+        .filter((node) => shownIds.has(node.id))
+        .map(({ id, data }) => ({
+          id,
+          label: data.label,
+          isDeleted: data.isDeleted,
+          isCurrent: data.isCurrent,
+          isOnWinnerPath: data.isOnWinnerPath,
+          isOnCurrentPath: data.isOnCurrentPath,
+          isDimmed: data.isDimmed,
+          accentColor: data.accentColor,
+        })),
+      edges: layoutedEdges
+        .filter((edge) => shownIds.has(edge.source) && shownIds.has(edge.target))
+        .map((edge) => ({
+          sourceId: edge.source,
+          targetId: edge.target,
+          stroke: edge.style?.stroke ?? '#334155',
+          strokeWidth: Number(edge.style?.strokeWidth ?? 1),
+          opacity: Number(edge.style?.opacity ?? 1),
+          label: typeof edge.label === 'string' ? edge.label : undefined,
+        })),
+    };
+  };
+
+  const isCurrentNodeShown = layoutedNodes.some((node) => node.id === currentTaleId);
+  const focusedMatchId = searchMatches.length > 0 && matchCursor >= 0 ? searchMatches[matchCursor % searchMatches.length] : null;
+
+  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSearchQuery(e.target.value);
+    setMatchCursor(-1);
+  };
+
+  // Enter steps through the matches (Shift+Enter goes back)
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && searchMatches.length > 0) {
+      const step = e.shiftKey ? -1 : 1;
+      setMatchCursor((cursor) =>
+        cursor < 0 ? 0 : (cursor + step + searchMatches.length) % searchMatches.length
+      );
+    }
+    if (e.key === 'Escape') {
+      setSearchQuery('');
+      setMatchCursor(-1);
+    }
+  };
+
+  const toggleNodeType = (type: StoryMapNodeType) => {
+    setVisibleTypes((types) => {
+      const nextTypes = new Set(types);
+      if (nextTypes.has(type)) {
+        nextTypes.delete(type);
+      } else {
+        nextTypes.add(type);
+      }
+      return nextTypes;
+    });
+  };
 
   // Loading state
   if (isLoading) {
@@ -273,7 +492,7 @@ export default function StoryGraph({ mapData, currentTaleId, isLoading, onNodeCl
   }
 
   // Empty state
-  if (!mapData || processedNodes.length === 0) {
+  if (!mapData || layoutedNodes.length === 0) {
     return (
       <motion.div
         initial={{ opacity: 0, scale: 0.95 }}
@@ -328,17 +547,40 @@ export default function StoryGraph({ mapData, currentTaleId, isLoading, onNodeCl
             </div>
           </div>
           
-          {/* Expand/Collapse Button */}
-          <button
-            onClick={() => setIsExpanded(!isExpanded)}
-            className="p-1.5 rounded-lg hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
-          >
-            {isExpanded ? (
-              <Minimize2 className="w-4 h-4" />
-            ) : (
-              <Maximize2 className="w-4 h-4" />
-            )}
-          </button>
+          <div className="flex items-center gap-2">
+            {/* Layout Switcher */}
+            <div className="flex gap-0.5 p-0.5 bg-slate-900/60 rounded-lg" role="group" aria-label="Map layout">
+              {LAYOUT_OPTIONS.map(({ value, label, icon: Icon }) => (
+                <button
+                  key={value}
+                  onClick={() => changeLayout(value)}
+                  aria-pressed={layoutKind === value}
+                  title={label}
+                  className={`p-1.5 rounded-md transition-all ${
+                    layoutKind === value
+                      ? 'bg-violet-600 text-white shadow-lg shadow-violet-500/25'
+                      : 'text-slate-400 hover:text-white'
+                  }`}
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                </button>
+              ))}
+            </div>
+
+            {layout && <MapExportMenu mapData={mapData} layout={layout} getView={getExportView} />}
+
+            {/* Expand/Collapse Button */}
+            <button
+              onClick={() => setIsExpanded(!isExpanded)}
+              className="p-1.5 rounded-lg hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
+            >
+              {isExpanded ? (
+                <Minimize2 className="w-4 h-4" />
+              ) : (
+                <Maximize2 className="w-4 h-4" />
+              )}
+            </button>
+          </div>
         </div>
         
         {/* Graph Container with Grid Pattern */}
@@ -366,8 +608,10 @@ export default function StoryGraph({ mapData, currentTaleId, isLoading, onNodeCl
             onNodeClick={handleNodeClick}
             connectionLineType={ConnectionLineType.SmoothStep}
             nodeTypes={nodeTypes}
+            edgeTypes={edgeTypes}
             fitView
             fitViewOptions={{ padding: 0.3 }}
+            onlyRenderVisibleElements={nodes.length > VISIBLE_ELEMENTS_THRESHOLD}
             attributionPosition="bottom-left"
             proOptions={{ hideAttribution: true }}
           >
@@ -379,45 +623,210 @@ export default function StoryGraph({ mapData, currentTaleId, isLoading, onNodeCl
             <Controls 
               className="!bg-slate-800/80 !border-white/10 !shadow-xl [&>button]:!bg-slate-700/80 [&>button]:!border-white/10 [&>button]:!text-slate-300 [&>button:hover]:!bg-violet-600/50"
             />
-            <CenterOnCurrentNode currentTaleId={currentTaleId} nodes={nodes} />
+            <MiniMap
+              pannable
+              zoomable
+              nodeColor={getMiniMapNodeColor}
+              nodeStrokeWidth={0}
+              maskColor="rgba(15, 23, 42, 0.75)"
+              className="!bg-slate-800/90 !border !border-white/10 !rounded-lg overflow-hidden"
+            />
+            <CenterOnCurrentNode
+              currentTaleId={currentTaleId}
+              isCurrentNodeShown={isCurrentNodeShown}
+              layoutKind={layoutKind}
+            />
+            <FocusOnNode nodeId={focusedMatchId} />
           </ReactFlow>
           
+          {/* Search & Filters - Fixed position */}
+          <div className="absolute top-4 left-4 z-10 w-64 max-w-[calc(100%-2rem)] bg-slate-800/90 backdrop-blur-sm rounded-lg p-3 border border-white/10 space-y-2">
+            <div className="relative">
+              <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-400" />
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={handleSearchChange}
+                onKeyDown={handleSearchKeyDown}
+                placeholder="Find a chapter..."
+                className="w-full pl-8 pr-14 py-1.5 bg-slate-900/80 border border-white/10 rounded-md text-xs text-slate-200 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-violet-500/50"
+              />
+              {normalizedQuery && (
+                <span className="absolute right-2.5 top-1/2 -translate-y-1/2 text-[10px] text-slate-400">
+                  {searchMatches.length === 0
+                    ? 'No match'
+                    : focusedMatchId
+                      ? `${searchMatches.indexOf(focusedMatchId) + 1}/${searchMatches.length}`
+                      : searchMatches.length}
+                </span>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-1">
+              {NODE_TYPE_FILTERS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => toggleNodeType(value)}
+                  aria-pressed={visibleTypes.has(value)}
+                  className={`px-2 py-1 rounded-md text-[11px] font-medium transition-colors ${
+                    visibleTypes.has(value)
+                      ? 'bg-violet-600/30 text-violet-200'
+                      : 'text-slate-500 hover:text-slate-300 line-through'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+              <button
+                onClick={() => setShowDeleted(!showDeleted)}
+                className="p-1 rounded-md text-slate-400 hover:text-white transition-colors"
+                title={showDeleted ? 'Hide deleted chapters' : 'Show deleted chapters'}
+              >
+                {showDeleted ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+              </button>
+              <button
+                onClick={() => setDimUnrelated(!dimUnrelated)}
+                aria-pressed={dimUnrelated}
+                className={`p-1 rounded-md transition-colors ${dimUnrelated ? 'text-violet-300' : 'text-slate-500 hover:text-slate-300'}`}
+                title={dimUnrelated ? 'Show all branches equally' : 'Dim branches away from this chapter'}
+              >
+                <Focus className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <div className="flex items-center gap-1">
+              <span className="text-[10px] uppercase tracking-wider text-slate-500 mr-1">Colour</span>
+              {COLOR_MODE_OPTIONS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setColorMode(value)}
+                  aria-pressed={colorMode === value}
+                  className={`px-1.5 py-0.5 rounded-md text-[11px] font-medium transition-colors ${
+                    colorMode === value ? 'bg-violet-600/30 text-violet-200' : 'text-slate-500 hover:text-slate-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setIsHeatmapOn(!isHeatmapOn)}
+                aria-pressed={isHeatmapOn}
+                className={`flex items-center gap-1 px-1.5 py-0.5 rounded-md text-[11px] font-medium transition-colors ${
+                  isHeatmapOn ? 'bg-orange-500/20 text-orange-300' : 'text-slate-500 hover:text-slate-300'
+                }`}
+                title={isHeatmapOn ? 'Hide heatmap' : 'Show where readers go'}
+              >
+                <Flame className="w-3.5 h-3.5" />
+                Heatmap
+              </button>
+              {isHeatmapOn &&
+                OVERLAY_OPTIONS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setOverlayMode(value)}
+                    aria-pressed={overlayMode === value}
+                    className={`px-1.5 py-0.5 rounded-md text-[11px] font-medium transition-colors ${
+                      overlayMode === value ? 'bg-violet-600/30 text-violet-200' : 'text-slate-500 hover:text-slate-300'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+            </div>
+          </div>
+
           {/* Legend - Fixed position */}
           <div className="absolute top-4 right-4 z-10 bg-slate-800/90 backdrop-blur-sm rounded-lg px-4 py-3 border border-white/10">
             <p className="text-xs text-slate-400 mb-2 font-medium">Legend</p>
-            <div className="flex flex-col gap-2">
-              <div className="flex items-center gap-2">
-                <div className="w-4 h-3 rounded bg-slate-900/90 border border-violet-500 shadow-[0_0_6px_rgba(139,92,246,0.5)]" />
-                <span className="text-xs text-slate-300">You are here</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="w-4 h-3 rounded bg-slate-900/90 border border-amber-400 shadow-[0_0_6px_rgba(251,191,36,0.3)]" />
-                <span className="text-xs text-slate-300">Popular path</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded-full bg-gradient-to-br from-violet-500 to-violet-700 border border-violet-400/50" />
-                <span className="text-xs text-slate-300">Root</span>
+            {heat ? (
+              <div className="w-40 space-y-1.5">
+                <p className="text-xs text-slate-300">
+                  {OVERLAY_OPTIONS.find(({ value }) => value === overlayMode)?.label}
+                </p>
+                <div
+                  className="h-2 rounded-full"
+                  style={{ background: `linear-gradient(to right, ${HEAT_STOPS.join(', ')})` }}
+                />
+                <div className="flex justify-between text-[10px] text-slate-400">
+                  <span>{heat.lowLabel}</span>
+                  <span>{heat.highLabel}</span>
+                </div>
+                {needsAnalytics && (isAnalyticsLoading || isAnalyticsError) && (
+                  <p className="text-[10px] text-slate-500">
+                    {isAnalyticsLoading ? 'Loading reader data...' : 'Reader data unavailable.'}
+                  </p>
+                )}
               </div>
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded-full bg-gradient-to-br from-amber-500 to-red-600 border border-amber-400/50" />
-                <span className="text-xs text-slate-300">Ending</span>
+            ) : coloring?.legend.kind === 'scale' ? (
+              <div className="w-40 space-y-1.5">
+                <p className="text-xs text-slate-300">
+                  {COLOR_MODE_OPTIONS.find(({ value }) => value === colorMode)?.label}
+                </p>
+                <div className="h-2 rounded-full" style={{ background: SCALE_GRADIENT }} />
+                <div className="flex justify-between text-[10px] text-slate-400">
+                  <span>{coloring.legend.lowLabel}</span>
+                  <span>{coloring.legend.highLabel}</span>
+                </div>
+                {coloring.legend.hasUnknown && (
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-full" style={{ background: UNKNOWN_COLOR }} />
+                    <span className="text-[10px] text-slate-400">No data</span>
+                  </div>
+                )}
               </div>
-              <div className="flex items-center gap-2 mt-1 pt-1 border-t border-white/10">
-                <div className="w-6 h-0.5 bg-violet-500 rounded animate-pulse" />
-                <span className="text-xs text-slate-300">Winner path</span>
+            ) : coloring?.legend.kind === 'swatches' ? (
+              <div className="flex flex-col gap-2 max-w-40">
+                {coloring.legend.items.map(({ label, color }) => (
+                  <div key={label} className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ background: color }} />
+                    <span className="text-xs text-slate-300 truncate">{label}</span>
+                  </div>
+                ))}
+                {coloring.legend.moreCount > 0 && (
+                  <span className="text-[10px] text-slate-500">
+                    +{coloring.legend.moreCount} more {coloring.legend.moreCount === 1 ? 'author' : 'authors'}
+                  </span>
+                )}
               </div>
-              <div className="flex items-center gap-2">
-                <div className="flex gap-0.5">
-                  <div className="w-3 h-0.5 bg-violet-500 rounded animate-pulse" />
-                  <div className="w-3 h-0.5 bg-violet-500 rounded animate-pulse" />
+            ) : (
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-3 rounded bg-slate-900/90 border border-violet-500 shadow-[0_0_6px_rgba(139,92,246,0.5)]" />
+                  <span className="text-xs text-slate-300">You are here</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-3 rounded bg-slate-900/90 border border-amber-400 shadow-[0_0_6px_rgba(251,191,36,0.3)]" />
+                  <span className="text-xs text-slate-300">Popular path</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-full bg-gradient-to-br from-violet-500 to-violet-700 border border-violet-400/50" />
+                  <span className="text-xs text-slate-300">Root</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-full bg-gradient-to-br from-amber-500 to-red-600 border border-amber-400/50" />
+                  <span className="text-xs text-slate-300">Ending</span>
+                </div>
+                <div className="flex items-center gap-2 mt-1 pt-1 border-t border-white/10">
+                  <div className="w-6 h-0.5 bg-slate-200 rounded" />
+                  <span className="text-xs text-slate-300">Your path</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-6 h-0.5 bg-violet-500 rounded animate-pulse" />
+                  <span className="text-xs text-slate-300">Winner path</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="flex gap-0.5">
+                    <div className="w-3 h-0.5 bg-violet-500 rounded animate-pulse" />
+                    <div className="w-3 h-0.5 bg-violet-500 rounded animate-pulse" />
+                  </div>
+                  <span className="text-xs text-slate-300">Contested (tie)</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-6 h-0.5 bg-slate-600 rounded" />
+                  <span className="text-xs text-slate-300">Unvoted</span>
                 </div>
-                <span className="text-xs text-slate-300">Contested (tie)</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="w-6 h-0.5 bg-slate-600 rounded" />
-                <span className="text-xs text-slate-300">Unvoted</span>
               </div>
-            </div>
+            )}
           </div>
         </div>
       </div>
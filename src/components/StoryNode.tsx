@@ -1,5 +1,8 @@
-import { memo } from 'react';
-import { Handle, Position, type NodeProps } from 'reactflow';
+import { memo, useEffect, useRef, useState } from 'react';
+import { Handle, NodeToolbar, Position, type NodeProps } from 'reactflow';
+import { Loader2, Plus } from 'lucide-react';
+import { LANE_DOT_SIZE } from '../lib/mapLayout';
+import StoryNodePopover from './StoryNodePopover';
 
 export interface StoryNodeData {
   label: string;
@@ -7,13 +10,102 @@ export interface StoryNodeData {
   isCurrent: boolean;
   isOnWinnerPath: boolean;
   isDeleted: boolean;
+  // On the chain from the root to the tale being read
+  isOnCurrentPath?: boolean;
+  // Faded out because it is neither an ancestor nor a descendant of the current tale
+  isDimmed?: boolean;
+  isSearchMatch?: boolean;
+  // Children not loaded yet in a depth-limited map; shows an "expand" stub
+  hiddenChildCount?: number;
+  isExpanding?: boolean;
+  onExpand?: (nodeId: string) => void;
+  // Lanes view: a commit-style dot with its label pushed right by `labelOffset`
+  isCompact?: boolean;
+  labelOffset?: number;
+  // Details for the hover card
+  authorName?: string | null;
+  createdAt?: string;
+  votes?: number;
+  childCount: number;
+  // Colour from the graph's "colour by" setting; replaces the status border
+  accentColor?: string;
 }
 
-const StoryNode = memo(({ data }: NodeProps<StoryNodeData>) => {
-  const { label, nodeType, isCurrent, isOnWinnerPath, isDeleted } = data;
+// Hover this long before the card opens (and its preview is fetched)
+const POPOVER_DELAY_MS = 350;
+
+// Where the expand stub sits, beside the side outgoing edges leave from
+const EXPAND_STUB_PLACEMENT: Record<Position, string> = {
+  [Position.Right]: 'top-1/2 -right-12 -translate-y-1/2',
+  [Position.Left]: 'top-1/2 -left-12 -translate-y-1/2',
+  [Position.Bottom]: 'left-1/2 -bottom-8 -translate-x-1/2',
+  [Position.Top]: 'left-1/2 -top-8 -translate-x-1/2',
+};
+
+const StoryNode = memo(({
+  id,
+  data,
+  targetPosition = Position.Left,
+  sourcePosition = Position.Right,
+}: NodeProps<StoryNodeData>) => {
+  const {
+    label,
+    nodeType,
+    isCurrent,
+    isOnWinnerPath,
+    isDeleted,
+    isOnCurrentPath,
+    isDimmed,
+    isSearchMatch,
+    hiddenChildCount,
+    isExpanding,
+    onExpand,
+    isCompact,
+    labelOffset = 0,
+    authorName,
+    createdAt,
+    votes,
+    childCount,
+    accentColor,
+  } = data;
+  const [isPopoverOpen, setIsPopoverOpen] = useState(false);
+  const hoverTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  useEffect(() => () => clearTimeout(hoverTimerRef.current), []);
+
+  const hoverHandlers = {
+    onMouseEnter: () => {
+      clearTimeout(hoverTimerRef.current);
+      hoverTimerRef.current = setTimeout(() => setIsPopoverOpen(true), POPOVER_DELAY_MS);
+    },
+    onMouseLeave: () => {
+      clearTimeout(hoverTimerRef.current);
+      setIsPopoverOpen(false);
+    },
+  };
+
+  // Rendered outside the zoomed viewport so it stays readable at any zoom level
+  const popover = (
+    <NodeToolbar isVisible={isPopoverOpen} position={Position.Top} offset={12}>
+      {isPopoverOpen && (
+        <StoryNodePopover
+          taleId={id}
+          title={isDeleted ? '[Deleted]' : (label || 'Untitled')}
+          authorName={authorName}
+          createdAt={createdAt}
+          votes={votes}
+          childCount={childCount}
+        />
+      )}
+    </NodeToolbar>
+  );
 
   // Determine border styling based on node state
   const getBorderClass = () => {
+    // Coloured-by mode: the accent is the border, set inline
+    if (accentColor && !isCurrent) {
+      return isDeleted ? 'border-dashed' : '';
+    }
     if (isDeleted) {
       return 'border-dashed border-slate-600';
     }
@@ -23,6 +115,9 @@ const StoryNode = memo(({ data }: NodeProps<StoryNodeData>) => {
     if (isOnWinnerPath) {
       return 'border-amber-400 shadow-[0_0_10px_rgba(251,191,36,0.3)]';
     }
+    if (isOnCurrentPath) {
+      return 'border-violet-400/60';
+    }
     return 'border-slate-700';
   };
 
@@ -42,17 +137,84 @@ const StoryNode = memo(({ data }: NodeProps<StoryNodeData>) => {
     }
   };
 
+  const renderExpandStub = (placementClass: string) =>
+    !!hiddenChildCount &&
+    onExpand && (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onExpand(id);
+        }}
+        disabled={isExpanding}
+        className={`nodrag ${placementClass} flex items-center gap-0.5 px-1.5 py-0.5 rounded-full bg-slate-800 border border-dashed border-violet-500/50 text-[10px] font-medium text-violet-300 hover:bg-violet-600/30 transition-colors disabled:cursor-wait`}
+        title={`Load ${hiddenChildCount} more ${hiddenChildCount === 1 ? 'branch' : 'branches'}`}
+      >
+        {isExpanding ? <Loader2 className="w-3 h-3 animate-spin" /> : <Plus className="w-3 h-3" />}
+        {hiddenChildCount}
+      </button>
+    );
+
+  if (isCompact) {
+    // Handles sit on the dot, so lane edges run through its centre
+    const handleStyle = { left: LANE_DOT_SIZE / 2 };
+    return (
+      <>
+        <Handle type="target" position={targetPosition} style={handleStyle} className="!opacity-0 !w-1 !h-1 !min-w-0 !min-h-0" />
+        {popover}
+        <div
+          {...hoverHandlers}
+          className={`flex items-center cursor-pointer group ${
+            isDimmed ? 'opacity-25 hover:opacity-70' : isDeleted ? 'opacity-50' : ''
+          }`}
+        >
+          <div
+            className={`shrink-0 rounded-full border-2 ${
+              isDeleted
+                ? 'border-dashed border-slate-600 bg-slate-900'
+                : isCurrent
+                  ? 'border-violet-300 bg-violet-500 shadow-[0_0_10px_rgba(139,92,246,0.8)]'
+                  : isOnWinnerPath
+                    ? 'border-amber-300 bg-amber-500/80'
+                    : isOnCurrentPath
+                      ? 'border-violet-400 bg-violet-900'
+                      : 'border-slate-500 bg-slate-900'
+            } ${isSearchMatch ? 'ring-2 ring-amber-300 ring-offset-1 ring-offset-slate-900' : ''}`}
+            style={{
+              width: LANE_DOT_SIZE,
+              height: LANE_DOT_SIZE,
+              ...(accentColor && !isCurrent && { borderColor: accentColor, backgroundColor: accentColor }),
+            }}
+          />
+          <p
+            className={`max-w-[240px] truncate text-[11px] font-sans whitespace-nowrap group-hover:text-white ${
+              isCurrent ? 'text-violet-200 font-semibold' : isDeleted ? 'text-slate-500' : 'text-slate-300'
+            }`}
+            style={{ marginLeft: labelOffset }}
+          >
+            {isDeleted ? '[Deleted]' : (label || 'Untitled')}
+          </p>
+          {renderExpandStub('ml-2')}
+        </div>
+        <Handle type="source" position={sourcePosition} style={handleStyle} className="!opacity-0 !w-1 !h-1 !min-w-0 !min-h-0" />
+      </>
+    );
+  }
+
   return (
     <>
-      {/* Invisible Target Handle (left) */}
+      {/* Invisible Target Handle */}
       <Handle
         type="target"
-        position={Position.Left}
+        position={targetPosition}
         className="!opacity-0 !w-2 !h-2"
       />
 
+      {popover}
+
       {/* Node Content */}
       <div
+        {...hoverHandlers}
+        style={accentColor && !isCurrent ? { borderColor: accentColor } : undefined}
         className={`
           relative
           min-w-[150px] max-w-[200px]
@@ -63,7 +225,8 @@ const StoryNode = memo(({ data }: NodeProps<StoryNodeData>) => {
           transition-all duration-200
           hover:bg-slate-800/90
           cursor-pointer
-          ${isDeleted ? 'opacity-50' : ''}
+          ${isSearchMatch ? 'ring-2 ring-amber-300 ring-offset-2 ring-offset-slate-900' : ''}
+          ${isDimmed ? 'opacity-25 hover:opacity-70' : isDeleted ? 'opacity-50' : ''}
         `}
       >
         {/* Type Indicator Badge */}
@@ -75,10 +238,13 @@ const StoryNode = memo(({ data }: NodeProps<StoryNodeData>) => {
         </p>
       </div>
 
-      {/* Invisible Source Handle (right) */}
+      {/* Expand Stub - loads the rest of this branch */}
+      {renderExpandStub(`absolute ${EXPAND_STUB_PLACEMENT[sourcePosition]}`)}
+
+      {/* Invisible Source Handle */}
       <Handle
         type="source"
-        position={Position.Right}
+        position={sourcePosition}
         className="!opacity-0 !w-2 !h-2"
       />
     </>
@@ -0,0 +1,75 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Calendar, GitBranch, Heart, User } from 'lucide-react';
+import { getTalePreview, type TaleResponse } from '../services/api';
+import { toPlainText } from '../lib/richText';
+
+interface StoryNodePopoverProps {
+  taleId: string;
+  title: string;
+  authorName?: string | null;
+  createdAt?: string;
+  votes?: number;
+  childCount: number;
+}
+
+const PREVIEW_LENGTH = 220;
+
+// Hover card for a story map node. Details come from the map; the content
+// preview reuses a tale the reader already opened, or fetches a light preview.
+export default function StoryNodePopover({ taleId, title, authorName, createdAt, votes, childCount }: StoryNodePopoverProps) {
+  const queryClient = useQueryClient();
+  const openedTale = queryClient.getQueryData<TaleResponse>(['tale', taleId]);
+
+  const { data: talePreview, isLoading, isError } = useQuery({
+    queryKey: ['talePreview', taleId],
+    queryFn: () => getTalePreview(taleId),
+    enabled: !openedTale,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const details = openedTale ?? talePreview;
+  const author = authorName ?? details?.authorName;
+  const created = createdAt ?? details?.createdAt;
+  const voteCount = votes ?? details?.votes;
+  const previewSource = openedTale?.content ?? talePreview?.contentPreview;
+  const preview = previewSource ? toPlainText(previewSource).replace(/\s+/g, ' ').trim() : '';
+
+  return (
+    <div className="w-72 p-3 rounded-xl bg-slate-900/95 backdrop-blur-xl border border-white/10 shadow-2xl text-left pointer-events-none">
+      <p className="text-sm font-semibold text-violet-200 line-clamp-2">{title}</p>
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1.5 text-[11px] text-slate-400">
+        <span className="flex items-center gap-1">
+          <User className="w-3 h-3" />
+          {author || 'Anonymous'}
+        </span>
+        {created && (
+          <span className="flex items-center gap-1">
+            <Calendar className="w-3 h-3" />
+            {new Date(created).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+          </span>
+        )}
+        {voteCount !== undefined && (
+          <span className="flex items-center gap-1">
+            <Heart className="w-3 h-3" />
+            {voteCount}
+          </span>
+        )}
+        <span className="flex items-center gap-1">
+          <GitBranch className="w-3 h-3" />
+          {childCount} {childCount === 1 ? 'branch' : 'branches'}
+        </span>
+      </div>
+
+      <p className="mt-2 text-xs text-slate-300 leading-relaxed line-clamp-4">
+        {isLoading
+          ? 'Loading preview...'
+          : isError
+            ? 'Preview unavailable.'
+            : preview.length > PREVIEW_LENGTH
+              ? `${preview.slice(0, PREVIEW_LENGTH)}…`
+              : preview || 'No content yet.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useQueries } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
+import { taleQueryOptions } from '../lib/taleQueries';
+import RichText from './RichText';
+
+interface StorySoFarProps {
+  // Chapters to render, root first; the current chapter is rendered by the reader itself
+  taleIds: string[];
+}
+
+// Continuous rendering of every chapter leading up to the current one
+export default function StorySoFar({ taleIds }: StorySoFarProps) {
+  const chapters = useQueries({
+    queries: taleIds.map((taleId) => taleQueryOptions(taleId)),
+  });
+
+  return (
+    <div className="max-w-2xl mx-auto mb-16 space-y-16">
+      {chapters.map(({ data, isLoading, error }, index) => (
+        <motion.section
+          key={taleIds[index]}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4, delay: Math.min(index, 5) * 0.05 }}
+        >
+          {/* Chapter heading */}
+          <div className="flex items-center gap-4 mb-8">
+            <div className="flex-1 h-px bg-gradient-to-r from-transparent to-slate-700" />
+            <div className="text-center">
+              <p className="text-xs uppercase tracking-widest text-slate-600">Chapter {index + 1}</p>
+              {data && (
+                <Link
+                  to={`/tale/${data.id}`}
+                  className="font-serif text-slate-300 hover:text-violet-300 transition-colors"
+                >
+                  {data.title || 'Untitled'}
+                </Link>
+              )}
+            </div>
+            <div className="flex-1 h-px bg-gradient-to-l from-transparent to-slate-700" />
+          </div>
+
+          {isLoading && (
+            <div className="space-y-4 animate-pulse">
+              <div className="h-4 bg-slate-700/50 rounded w-full" />
+              <div className="h-4 bg-slate-700/50 rounded w-5/6" />
+              <div className="h-4 bg-slate-700/50 rounded w-2/3" />
+            </div>
+          )}
+
+          {error && !data && (
+            <p className="text-center text-sm text-slate-500 italic">This chapter could not be loaded.</p>
+          )}
+
+          {data && (
+            <>
+              <RichText
+                content={data.content}
+                dropCap={index === 0}
+                className={`font-serif text-xl md:text-2xl leading-loose space-y-8 tracking-wide ${data.isDeleted ? 'text-slate-500' : 'text-slate-200'}`}
+              />
+              <p className="mt-6 text-right text-sm text-slate-500 font-serif italic">
+                — {data.authorName || 'Anonymous'}
+              </p>
+            </>
+          )}
+        </motion.section>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { fetchTale } from '../services/api';
+import { taleQueryOptions } from '../lib/taleQueries';
 import { BookOpen, ChevronRight } from 'lucide-react';
 
 interface TaleReaderProps {
@@ -11,11 +11,7 @@ export default function TaleReader({ initialTaleId = '' }: TaleReaderProps) {
   const [currentTaleId, setCurrentTaleId] = useState(initialTaleId);
   const [taleHistory, setTaleHistory] = useState<string[]>([]);
 
-  const { data, isLoading, error } = useQuery({
-    queryKey: ['tale', currentTaleId],
-    queryFn: () => fetchTale(currentTaleId),
-    enabled: !!currentTaleId,
-  });
+  const { data, isLoading, error } = useQuery(taleQueryOptions(currentTaleId));
 
   const handleChoiceClick = (choiceId: string) => {
     setTaleHistory([...taleHistory, currentTaleId]);
@@ -1,8 +1,15 @@
 import { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery } from '@tanstack/react-query';
 import { useParams, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { supabase } from '../lib/supabase';
+import {
+  getPublicUserProfile,
+  getUserTales,
+  type TaleSummary,
+  type UserTalesSortOption,
+} from '../services/api';
+import { NotFoundError, getErrorMessage } from '../services/apiErrors';
 import { 
   Calendar, 
   Star, 
@@ -10,68 +17,17 @@ import {
   ArrowLeft,
   User as UserIcon,
   ChevronRight,
-  Feather
+  Feather,
+  Clock,
+  TrendingUp,
+  History,
+  Loader2
 } from 'lucide-react';
 import { Card, Navbar, Footer, Button } from './ui';
 import FeedbackModal from './FeedbackModal';
+import { RichTextSnippet } from './RichText';
 import type { User } from '@supabase/supabase-js';
 
-// API interfaces
-interface PublicUserProfile {
-  id: string;
-  displayName: string;
-  bio: string | null;
-  avatarStyle: string;
-  taleCount: number;
-  voteCount: number;
-  joinedDate: string;
-}
-
-interface TaleSummary {
-  id: string;
-  title: string | null;
-  contentPreview: string;
-  createdAt: string;
-  votesReceived: number;
-}
-
-const getPublicUserProfile = async (identifier: string): Promise<PublicUserProfile> => {
-  const { data: { session } } = await supabase.auth.getSession();
-  const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://localhost:32769';
-  
-  const response = await fetch(`${API_BASE_URL}/api/Users/${identifier}`, {
-    headers: {
-      'Content-Type': 'application/json',
-      ...(session?.access_token && { 'Authorization': `Bearer ${session.access_token}` }),
-    },
-  });
-  
-  if (!response.ok) {
-    throw new Error('User not found');
-  }
-  
-  return response.json();
-};
-
-// API function to get user's tales
-const getUserTales = async (userId: string): Promise<TaleSummary[]> => {
-  const { data: { session } } = await supabase.auth.getSession();
-  const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://localhost:32769';
-  
-  const response = await fetch(`${API_BASE_URL}/api/Users/${userId}/tales`, {
-    headers: {
-      'Content-Type': 'application/json',
-      ...(session?.access_token && { 'Authorization': `Bearer ${session.access_token}` }),
-    },
-  });
-  
-  if (!response.ok) {
-    throw new Error('Failed to fetch user tales');
-  }
-  
-  return response.json();
-};
-
 // Animation variants
 const containerVariants = {
   hidden: { opacity: 0 },
@@ -201,12 +157,12 @@ function TaleCard({
           </div>
 
           {/* Preview */}
-          <p 
-            className="text-slate-300 text-sm font-serif leading-relaxed line-clamp-3 mb-4 cursor-pointer"
-            onClick={() => onNavigate(tale.id)}
-          >
-            {tale.contentPreview}
-          </p>
+          <div onClick={() => onNavigate(tale.id)} className="cursor-pointer">
+            <RichTextSnippet
+              content={tale.contentPreview}
+              className="text-slate-300 text-sm font-serif leading-relaxed line-clamp-3 mb-4"
+            />
+          </div>
 
           {/* Read More */}
           <div className="flex items-center justify-end pt-4 border-t border-white/10">
@@ -232,6 +188,7 @@ export default function UserView() {
   
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [isFeedbackOpen, setIsFeedbackOpen] = useState(false);
+  const [sortBy, setSortBy] = useState<UserTalesSortOption>('recent');
 
   useEffect(() => {
     const checkSession = async () => {
@@ -254,13 +211,25 @@ export default function UserView() {
     enabled: !!identifier,
   });
 
-  // Fetch user's tales (only when we have the profile id)
-  const { data: tales, isLoading: talesLoading } = useQuery({
-    queryKey: ['userTales', profile?.id],
-    queryFn: () => getUserTales(profile!.id),
+  // Fetch user's tales page by page (only when we have the profile id)
+  const {
+    data: talesData,
+    isLoading: talesLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['userTales', profile?.id, sortBy],
+    queryFn: ({ pageParam = 1 }) => getUserTales({ userId: profile!.id, page: pageParam, size: 9, sort: sortBy }),
+    getNextPageParam: (lastPage) =>
+      lastPage.hasNextPage ? lastPage.page + 1 : undefined,
+    initialPageParam: 1,
     enabled: !!profile?.id,
   });
 
+  // Flatten all pages into a single array of tales
+  const tales = talesData?.pages.flatMap((page) => page.items) ?? [];
+
   const handleNavigate = (id: string) => {
     navigate(`/tale/${id}`);
   };
@@ -284,9 +253,13 @@ export default function UserView() {
         <main className="flex-1 flex items-center justify-center px-6">
           <Card className="p-12 text-center max-w-md">
             <UserIcon className="w-12 h-12 mx-auto mb-4 text-slate-500" />
-            <p className="text-slate-300 font-serif text-lg">User not found</p>
+            <p className="text-slate-300 font-serif text-lg">
+              {error instanceof NotFoundError ? 'User not found' : 'Unable to load profile'}
+            </p>
             <p className="text-slate-500 text-sm mt-2">
-              This user doesn't exist or their profile is private.
+              {error instanceof NotFoundError
+                ? 'This user doesn\'t exist or their profile is private.'
+                : getErrorMessage(error, 'Something went wrong while loading this profile.')}
             </p>
             <Button
               variant="primary"
@@ -411,11 +384,35 @@ export default function UserView() {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.3 }}
         >
-          <div className="flex items-center gap-3 mb-6">
-            <Feather className="w-5 h-5 text-violet-400" />
-            <h2 className="text-xl font-serif font-semibold text-white">
-              Tales by {displayName}
-            </h2>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-3">
+              <Feather className="w-5 h-5 text-violet-400" />
+              <h2 className="text-xl font-serif font-semibold text-white">
+                Tales by {displayName}
+              </h2>
+            </div>
+
+            {/* Sort Controls */}
+            <div className="flex items-center gap-1 p-1 bg-slate-800/50 rounded-lg border border-slate-700/50 self-start sm:self-auto">
+              {([
+                { value: 'recent', label: 'Newest', icon: Clock },
+                { value: 'votes', label: 'Top Rated', icon: TrendingUp },
+                { value: 'oldest', label: 'Oldest', icon: History },
+              ] as const).map(({ value, label, icon: Icon }) => (
+                <button
+                  key={value}
+                  onClick={() => setSortBy(value)}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                    sortBy === value
+                      ? 'bg-violet-600 text-white shadow-lg shadow-violet-500/25'
+                      : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/50'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
           </div>
 
           {talesLoading ? (
@@ -424,21 +421,43 @@ export default function UserView() {
                 <div key={i} className="h-48 rounded-2xl bg-white/5 animate-pulse" />
               ))}
             </div>
-          ) : tales && tales.length > 0 ? (
-            <motion.div
-              variants={containerVariants}
-              initial="hidden"
-              animate="visible"
-              className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
-            >
-              {tales.map((tale) => (
-                <TaleCard 
-                  key={tale.id} 
-                  tale={tale} 
-                  onNavigate={handleNavigate} 
-                />
-              ))}
-            </motion.div>
+          ) : tales.length > 0 ? (
+            <>
+              <motion.div
+                variants={containerVariants}
+                initial="hidden"
+                animate="visible"
+                className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
+              >
+                {tales.map((tale) => (
+                  <TaleCard 
+                    key={tale.id} 
+                    tale={tale} 
+                    onNavigate={handleNavigate} 
+                  />
+                ))}
+              </motion.div>
+
+              {/* Load More Button */}
+              {hasNextPage && (
+                <div className="flex justify-center mt-10">
+                  <button
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    className="flex items-center gap-2 px-6 py-3 rounded-xl bg-violet-600/20 hover:bg-violet-600/30 border border-violet-500/30 text-violet-300 hover:text-violet-200 font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isFetchingNextPage ? (
+                      <>
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        Loading...
+                      </>
+                    ) : (
+                      'Load More Tales'
+                    )}
+                  </button>
+                </div>
+              )}
+            </>
           ) : (
             <Card className="p-12 text-center">
               <BookOpen className="w-12 h-12 mx-auto mb-4 text-slate-500" />
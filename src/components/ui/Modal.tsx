@@ -1,4 +1,4 @@
-import { useEffect, type ReactNode } from 'react';
+import { useEffect, useId, useRef, type ReactNode } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X } from 'lucide-react';
 import { cn } from '../../lib/utils';
@@ -51,6 +51,18 @@ const modalVariants = {
   },
 };
 
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',');
+
+const getFocusableElements = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+
 export function Modal({
   isOpen,
   onClose,
@@ -59,25 +71,60 @@ export function Modal({
   size = 'lg',
   showCloseButton = true,
 }: ModalProps) {
-  // Close on Escape key
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const titleId = useId();
+
+  // Close on Escape key, and keep Tab cycling within the dialog
   useEffect(() => {
-    const handleEscape = (e: KeyboardEvent) => {
+    const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
         onClose();
+        return;
+      }
+
+      if (e.key === 'Tab' && dialogRef.current) {
+        const focusable = getFocusableElements(dialogRef.current);
+        if (focusable.length === 0) {
+          e.preventDefault();
+          return;
+        }
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (e.shiftKey && document.activeElement === first) {
+          e.preventDefault();
+          last.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+          e.preventDefault();
+          first.focus();
+        }
       }
     };
 
     if (isOpen) {
-      document.addEventListener('keydown', handleEscape);
+      document.addEventListener('keydown', handleKeyDown);
       document.body.style.overflow = 'hidden';
     }
 
     return () => {
-      document.removeEventListener('keydown', handleEscape);
+      document.removeEventListener('keydown', handleKeyDown);
       document.body.style.overflow = 'unset';
     };
   }, [isOpen, onClose]);
 
+  // Move focus into the dialog when it opens and hand it back when it closes
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    const firstInContent = contentRef.current && getFocusableElements(contentRef.current)[0];
+    (firstInContent ?? dialogRef.current)?.focus();
+
+    return () => {
+      previouslyFocused?.focus?.();
+    };
+  }, [isOpen]);
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -94,11 +141,17 @@ export function Modal({
 
           {/* Modal Content */}
           <motion.div
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby={title ? titleId : undefined}
+            tabIndex={-1}
             variants={modalVariants}
             initial="hidden"
             animate="visible"
             exit="exit"
             className={cn(
+              'focus:outline-none',
               'relative w-full',
               sizeStyles[size],
               'backdrop-blur-xl bg-slate-900/90 border border-white/10',
@@ -110,7 +163,7 @@ export function Modal({
             {(title || showCloseButton) && (
               <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
                 {title && (
-                  <h2 className="text-xl font-semibold text-white">{title}</h2>
+                  <h2 id={titleId} className="text-xl font-semibold text-white">{title}</h2>
                 )}
                 {showCloseButton && (
                   <Button
@@ -118,6 +171,7 @@ export function Modal({
                     size="sm"
                     onClick={onClose}
                     className="ml-auto -mr-2"
+                    aria-label="Close"
                   >
                     <X className="w-5 h-5" />
                   </Button>
@@ -126,7 +180,7 @@ export function Modal({
             )}
 
             {/* Content */}
-            <div className="overflow-y-auto max-h-[calc(90vh-80px)]">
+            <div ref={contentRef} className="overflow-y-auto max-h-[calc(90vh-80px)]">
               {children}
             </div>
           </motion.div>
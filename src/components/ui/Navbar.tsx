@@ -5,9 +5,13 @@ import { Button } from './Button';
 import type { User } from '@supabase/supabase-js';
 import { supabase } from '../../lib/supabase';
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { searchTales, type SearchResult, getNotifications, type Notification } from '../../services/api';
+import { searchTales, type SearchResult } from '../../services/api';
 import { NotificationBell } from '../NotificationBell';
-import { useQuery } from '@tanstack/react-query';
+import { RichTextSnippet } from '../RichText';
+import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts';
+import { useNotifications } from '../../hooks/useNotifications';
+import { releasePushSubscription } from '../../lib/webPush';
+import { clearOfflineCache } from '../../lib/offlineCache';
 
 interface NavbarProps {
   user: User | null;
@@ -24,17 +28,12 @@ export function Navbar({ user, onStartStory }: NavbarProps) {
   const searchRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const mobileMenuRef = useRef<HTMLDivElement>(null);
-
-  // Fetch notifications for mobile menu badge
-  const { data: notifications = [] } = useQuery<Notification[]>({
-    queryKey: ['notifications'],
-    queryFn: getNotifications,
-    refetchInterval: 30000,
-    enabled: !!user,
-  });
-  const unreadCount = notifications.filter((n) => !n.isRead).length;
+  // Mobile menu badge
+  const { unreadCount } = useNotifications();
 
   const handleLogout = async () => {
+    await releasePushSubscription();
+    await clearOfflineCache();
     await supabase.auth.signOut();
     navigate('/');
   };
@@ -105,6 +104,17 @@ export function Navbar({ user, onStartStory }: NavbarProps) {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // `/` jumps to search; the inline field is hidden on small screens, so fall back to the search page
+  useKeyboardShortcuts({
+    '/': () => {
+      if (inputRef.current?.offsetParent) {
+        inputRef.current.focus();
+      } else {
+        navigate('/search');
+      }
+    },
+  });
+
   // Close mobile menu on navigation
   const handleMobileNavigation = (path: string) => {
     setMobileMenuOpen(false);
@@ -113,6 +123,8 @@ export function Navbar({ user, onStartStory }: NavbarProps) {
 
   const handleMobileLogout = async () => {
     setMobileMenuOpen(false);
+    await releasePushSubscription();
+    await clearOfflineCache();
     await supabase.auth.signOut();
     navigate('/');
   };
@@ -184,9 +196,10 @@ export function Navbar({ user, onStartStory }: NavbarProps) {
                         <p className="text-sm font-medium text-slate-200 truncate">
                           {result.title || 'Untitled Tale'}
                         </p>
-                        <p className="text-xs text-slate-400 mt-1 line-clamp-2">
-                          {result.content}
-                        </p>
+                        <RichTextSnippet
+                          content={result.content}
+                          className="text-xs text-slate-400 mt-1 line-clamp-2"
+                        />
                         {result.authorName && (
                           <p className="text-xs text-violet-400 mt-1">
                             by {result.authorName}
@@ -237,7 +250,7 @@ export function Navbar({ user, onStartStory }: NavbarProps) {
             {/* Desktop Layout - visible on md and up */}
             {user ? (
               <div className="hidden md:flex items-center gap-3">
-                <NotificationBell />
+                <NotificationBell userId={user.id} />
                 <Button
                   variant="ghost"
                   size="sm"
@@ -310,7 +323,7 @@ export function Navbar({ user, onStartStory }: NavbarProps) {
                     >
                       {/* Notifications */}
                       <button
-                        onClick={() => handleMobileNavigation('/profile')}
+                        onClick={() => handleMobileNavigation('/notifications')}
                         className="w-full px-4 py-3 flex items-center gap-3 hover:bg-white/10 transition-colors text-left"
                       >
                         <Bell className="w-4 h-4 text-violet-400" />
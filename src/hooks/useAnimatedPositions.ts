@@ -0,0 +1,48 @@
+import { useEffect, useRef, useState } from 'react';
+import type { NodePosition } from '../lib/mapLayout';
+
+type Positions = Map<string, NodePosition>;
+
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2);
+
+const interpolate = (from: Positions, to: Positions, progress: number): Positions => {
+  const positions: Positions = new Map();
+  to.forEach((target, id) => {
+    // Nodes that weren't on screen before simply appear at their new spot
+    const start = from.get(id) ?? target;
+    positions.set(id, {
+      x: start.x + (target.x - start.x) * progress,
+      y: start.y + (target.y - start.y) * progress,
+    });
+  });
+  return positions;
+};
+
+/**
+ * Glides nodes from their previous positions to `target` whenever it
+ * changes (switching layouts, expanding a branch). Very large maps jump
+ * straight to the new layout - re-rendering thousands of nodes per frame
+ * would only make the transition stutter.
+ */
+export function useAnimatedPositions(target: Positions, duration = 450, maxAnimatedNodes = 500): Positions {
+  const [positions, setPositions] = useState(target);
+  const shownRef = useRef(target);
+
+  useEffect(() => {
+    const from = shownRef.current;
+    if (from === target) return;
+
+    const skipAnimation = target.size > maxAnimatedNodes || from.size === 0;
+    const startTime = performance.now();
+    let frame = requestAnimationFrame(function step(now) {
+      const progress = skipAnimation ? 1 : Math.min(1, (now - startTime) / duration);
+      const next = progress === 1 ? target : interpolate(from, target, easeInOutCubic(progress));
+      shownRef.current = next;
+      setPositions(next);
+      if (progress < 1) frame = requestAnimationFrame(step);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [target, duration, maxAnimatedNodes]);
+
+  return positions;
+}
@@ -0,0 +1,27 @@
+import { useState, useCallback } from 'react';
+import type { ChoiceSortOption } from '../services/api';
+import { loadChoiceSort, saveChoiceSort } from '../lib/choiceSort';
+
+/**
+ * The reader's choice sort, persisted per user. The stored preference is
+ * re-read when the signed-in user changes (e.g. once the session loads).
+ */
+export function useChoiceSort(userId: string | null) {
+  const [sortUserId, setSortUserId] = useState(userId);
+  const [sort, setSortState] = useState<ChoiceSortOption>(() => loadChoiceSort(userId));
+
+  if (sortUserId !== userId) {
+    setSortUserId(userId);
+    setSortState(loadChoiceSort(userId));
+  }
+
+  const setSort = useCallback(
+    (nextSort: ChoiceSortOption) => {
+      setSortState(nextSort);
+      saveChoiceSort(userId, nextSort);
+    },
+    [userId]
+  );
+
+  return [sort, setSort] as const;
+}
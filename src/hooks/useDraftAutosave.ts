@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback } from 'react';
+import { loadDraft, saveDraft, clearDraft, type Draft } from '../lib/drafts';
+
+interface UseDraftAutosaveOptions {
+  // Drafts belong to the signed-in writer; nothing is saved or offered without one
+  userId: string | null;
+  parentTaleId: string | null;
+  title: string;
+  content: string;
+  // Pause autosaving, e.g. while a modal is closed
+  enabled?: boolean;
+}
+
+/**
+ * Autosaves a chapter draft for `parentTaleId` as the writer types and
+ * surfaces a previously saved draft as `pendingDraft` so the form can offer
+ * to restore it. An empty form never overwrites that draft; once the writer
+ * starts typing instead of answering, the prompt is dropped and the new text
+ * is what gets saved.
+ */
+export function useDraftAutosave({ userId, parentTaleId, title, content, enabled = true }: UseDraftAutosaveOptions) {
+  const draftScope = userId ? `${userId}:${parentTaleId}` : null;
+  const [loadedScope, setLoadedScope] = useState(draftScope);
+  const [pendingDraft, setPendingDraft] = useState<Draft | null>(() =>
+    userId ? loadDraft(userId, parentTaleId) : null
+  );
+  const hasText = !!(title.trim() || content.trim());
+
+  // Re-read the stored draft when the writer or parent changes
+  if (loadedScope !== draftScope) {
+    setLoadedScope(draftScope);
+    setPendingDraft(userId ? loadDraft(userId, parentTaleId) : null);
+  }
+
+  // Typing past the prompt means starting fresh, so resume autosaving
+  if (pendingDraft && enabled && hasText) {
+    setPendingDraft(null);
+  }
+
+  useEffect(() => {
+    if (!enabled || !userId || pendingDraft) return;
+
+    if (hasText) {
+      saveDraft(userId, parentTaleId, title, content);
+    } else {
+      clearDraft(userId, parentTaleId);
+    }
+  }, [userId, parentTaleId, title, content, hasText, enabled, pendingDraft]);
+
+  // Returns the draft so the caller can put it back into its fields
+  const restoreDraft = useCallback((): Draft | null => {
+    const draft = pendingDraft;
+    setPendingDraft(null);
+    return draft;
+  }, [pendingDraft]);
+
+  const discardDraft = useCallback(() => {
+    if (userId) clearDraft(userId, parentTaleId);
+    setPendingDraft(null);
+  }, [userId, parentTaleId]);
+
+  // Call after a successful submit
+  const clearSavedDraft = useCallback(() => {
+    if (userId) clearDraft(userId, parentTaleId);
+    setPendingDraft(null);
+  }, [userId, parentTaleId]);
+
+  return { pendingDraft, restoreDraft, discardDraft, clearSavedDraft };
+}
+
+export default useDraftAutosave;
@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+import { isModalOpen, isTypingTarget } from '../lib/keyboardShortcuts';
+
+export type ShortcutBindings = Record<string, (event: KeyboardEvent) => void>;
+
+/**
+ * Binds single-key shortcuts (matched on `KeyboardEvent.key`) for as long as
+ * the component is mounted. Keys are ignored while typing in a form field,
+ * while a modal is open, or when combined with Ctrl/Cmd/Alt so browser
+ * shortcuts keep working.
+ */
+export function useKeyboardShortcuts(bindings: ShortcutBindings, enabled = true) {
+  // Latest bindings, so the listener doesn't need re-attaching every render
+  const bindingsRef = useRef(bindings);
+  useEffect(() => {
+    bindingsRef.current = bindings;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isTypingTarget(event.target) || isModalOpen()) return;
+
+      const handler = bindingsRef.current[event.key];
+      if (handler) {
+        event.preventDefault();
+        handler(event);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Calls `onLoadMore` whenever the returned sentinel element comes within
+ * `rootMargin` of the viewport, for intersection-observer based infinite lists.
+ */
+export function useLoadMoreOnScroll(onLoadMore: () => void, enabled: boolean, rootMargin = '600px') {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  });
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !enabled) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) onLoadMoreRef.current();
+      },
+      { rootMargin }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [enabled, rootMargin]);
+
+  return sentinelRef;
+}
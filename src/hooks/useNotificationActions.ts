@@ -0,0 +1,69 @@
+import { useMutation, useQueryClient, type QueryKey } from '@tanstack/react-query';
+import {
+  deleteNotification,
+  deleteReadNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  type NotificationType,
+} from '../services/api';
+import {
+  NOTIFICATIONS_KEY,
+  restoreNotifications,
+  snapshotNotifications,
+  updateCachedNotifications,
+  type NotificationUpdate,
+} from '../lib/notificationCache';
+
+interface NotificationMutationContext {
+  snapshots: [QueryKey, unknown][];
+}
+
+// Optimistic notification mutation: edit every cached copy, roll back on failure
+function useOptimisticNotificationMutation<TVariables>(
+  mutationFn: (variables: TVariables) => Promise<void>,
+  getUpdate: (variables: TVariables) => NotificationUpdate
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, TVariables, NotificationMutationContext>({
+    mutationFn,
+    onMutate: async (variables) => {
+      await queryClient.cancelQueries({ queryKey: NOTIFICATIONS_KEY });
+      const snapshots = snapshotNotifications(queryClient);
+      updateCachedNotifications(queryClient, getUpdate(variables));
+      return { snapshots };
+    },
+    onError: (error, _variables, context) => {
+      console.error('Failed to update notifications:', error);
+      if (context) restoreNotifications(queryClient, context.snapshots);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_KEY });
+    },
+  });
+}
+
+/**
+ * Read/delete actions for notifications. Each applies to the bell's list
+ * and the paged history at once, so both stay in step.
+ */
+export function useNotificationActions() {
+  const markRead = useOptimisticNotificationMutation(markNotificationRead, (id: string) => (notification) =>
+    notification.id === id ? { ...notification, isRead: true } : notification
+  );
+  const markAllRead = useOptimisticNotificationMutation<void>(markAllNotificationsRead, () => (notification) => ({
+    ...notification,
+    isRead: true,
+  }));
+  const remove = useOptimisticNotificationMutation(deleteNotification, (id: string) => (notification) =>
+    notification.id === id ? null : notification
+  );
+  // Pass a type to clear only that kind; undefined clears every read notification
+  const clearRead = useOptimisticNotificationMutation(
+    deleteReadNotifications,
+    (type: NotificationType | undefined) => (notification) =>
+      notification.isRead && (!type || notification.type === type) ? null : notification
+  );
+
+  return { markRead, markAllRead, remove, clearRead };
+}
@@ -0,0 +1,84 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  getNotificationPreferences,
+  muteStory,
+  unmuteStory,
+  updateNotificationPreferences,
+  type MutedStory,
+  type NotificationPreferences,
+  type UpdateNotificationPreferencesRequest,
+} from '../services/api';
+
+// Keyed per user so the next account signing in never sees cached settings
+const getPreferencesKey = (userId: string | null) => ['notificationPreferences', userId] as const;
+
+export interface StoryMuteChange {
+  story: MutedStory;
+  isMuted: boolean;
+}
+
+interface PreferencesMutationContext {
+  previous?: NotificationPreferences;
+}
+
+// Writes the change into the cached preferences straight away and rolls back on failure
+function usePreferencesMutation<TVariables>(
+  userId: string | null,
+  mutationFn: (variables: TVariables) => Promise<unknown>,
+  patch: (preferences: NotificationPreferences, variables: TVariables) => NotificationPreferences
+) {
+  const queryClient = useQueryClient();
+  const queryKey = getPreferencesKey(userId);
+
+  return useMutation<unknown, Error, TVariables, PreferencesMutationContext>({
+    mutationFn,
+    onMutate: async (variables) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<NotificationPreferences>(queryKey);
+      if (previous) queryClient.setQueryData(queryKey, patch(previous, variables));
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      console.error('Failed to update notification preferences:', error);
+      if (context?.previous) queryClient.setQueryData(queryKey, context.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+}
+
+/**
+ * The signed-in user's notification preferences: which kinds reach the bell
+ * or the email digest, how often the digest goes out, and muted stories.
+ * Nothing is fetched while `userId` is null (signed out).
+ */
+export function useNotificationPreferences(userId: string | null) {
+  const { data: preferences, isLoading, error, refetch, isRefetching } = useQuery({
+    queryKey: getPreferencesKey(userId),
+    queryFn: getNotificationPreferences,
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const update = usePreferencesMutation(
+    userId,
+    updateNotificationPreferences,
+    (current, request: UpdateNotificationPreferencesRequest) => ({
+      ...current,
+      delivery: { ...current.delivery, ...request.delivery },
+      digestFrequency: request.digestFrequency ?? current.digestFrequency,
+    })
+  );
+
+  const setStoryMuted = usePreferencesMutation(
+    userId,
+    ({ story, isMuted }: StoryMuteChange) => (isMuted ? muteStory(story.rootTaleId) : unmuteStory(story.rootTaleId)),
+    (current, { story, isMuted }) => {
+      const others = current.mutedStories.filter((muted) => muted.rootTaleId !== story.rootTaleId);
+      return { ...current, mutedStories: isMuted ? [...others, story] : others };
+    }
+  );
+
+  return { preferences, isLoading, error, refetch, isRefetching, update, setStoryMuted };
+}
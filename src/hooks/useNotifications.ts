@@ -0,0 +1,28 @@
+import { createContext, useContext } from 'react';
+import type { Notification } from '../services/api';
+
+export interface NotificationsContextType {
+  // Recent notifications for the signed-in reader, newest first; empty while signed out
+  notifications: Notification[];
+  unreadCount: number;
+  isLoading: boolean;
+  // Whether new notifications are being pushed, rather than polled for
+  isLive: boolean;
+  markRead: (id: string) => void;
+  markAllRead: () => void;
+}
+
+export const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+/**
+ * The app-wide notifications store. A single NotificationsProvider owns the
+ * query, realtime subscription, polling fallback and tab-title badge; every
+ * notification UI reads from here instead of querying on its own.
+ */
+export function useNotifications() {
+  const context = useContext(NotificationsContext);
+  if (!context) {
+    throw new Error('useNotifications must be used within a NotificationsProvider');
+  }
+  return context;
+}
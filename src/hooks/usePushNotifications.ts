@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  dismissPushPrompt,
+  getPushPermission,
+  getPushSubscription,
+  isPushPromptDismissed,
+  isPushSupported,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from '../lib/webPush';
+
+export const PUSH_SUBSCRIPTION_KEY = ['pushSubscription'] as const;
+
+/**
+ * Browser push opt-in state for this device. The subscription lives in the
+ * query cache, so the bell's prompt and the settings toggle stay in sync.
+ * Keyed per user: the subscription is dropped when its account signs out.
+ */
+export function usePushNotifications(userId: string | null) {
+  const queryClient = useQueryClient();
+  const queryKey = [...PUSH_SUBSCRIPTION_KEY, userId];
+  const isSupported = isPushSupported();
+  const [isPromptDismissed, setIsPromptDismissed] = useState(isPushPromptDismissed);
+
+  const { data: isSubscribed = false, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => !!(await getPushSubscription()),
+    enabled: isSupported && !!userId,
+    staleTime: Infinity,
+  });
+
+  const subscribe = useMutation<void, Error, void>({
+    mutationFn: async () => {
+      await subscribeToPush();
+    },
+    onSuccess: () => queryClient.setQueryData(queryKey, true),
+    onError: (error) => console.error('Failed to enable push notifications:', error),
+  });
+
+  const unsubscribe = useMutation<void, Error, void>({
+    mutationFn: unsubscribeFromPush,
+    onSuccess: () => queryClient.setQueryData(queryKey, false),
+    onError: (error) => console.error('Failed to disable push notifications:', error),
+  });
+
+  const dismissPrompt = () => {
+    dismissPushPrompt();
+    setIsPromptDismissed(true);
+  };
+
+  // Read on every render: the permission prompt resolves outside React
+  const permission = getPushPermission();
+
+  return {
+    isSupported,
+    permission,
+    isSubscribed,
+    isLoading,
+    // Worth offering: supported, not yet on, not blocked and not waved away
+    shouldPrompt: isSupported && !isLoading && !isSubscribed && permission !== 'denied' && !isPromptDismissed,
+    subscribe,
+    unsubscribe,
+    dismissPrompt,
+  };
+}
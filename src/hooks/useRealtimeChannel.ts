@@ -0,0 +1,44 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  isTopicConnected,
+  subscribeToTopicStatus,
+  subscribeToTopic,
+  type RealtimeEvent,
+  type RealtimeHandlers,
+} from '../lib/realtime';
+
+// Whether the topic is currently receiving updates; false while no topic is set
+export function useRealtimeStatus(topic: string | null): boolean {
+  return useSyncExternalStore(subscribeToTopicStatus, () => !!topic && isTopicConnected(topic));
+}
+
+/**
+ * Subscribes to a realtime topic while `topic` is set and routes its events
+ * to `handlers`. Returns whether the channel is connected, so callers can
+ * poll instead while it isn't.
+ */
+export function useRealtimeChannel(
+  topic: string | null,
+  handlers: RealtimeHandlers,
+  isPrivate = false
+): boolean {
+  // Latest handlers, so re-renders don't resubscribe
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!topic) return;
+    return subscribeToTopic(
+      topic,
+      (event, payload) => {
+        const handler = handlersRef.current[event as RealtimeEvent] as ((payload: unknown) => void) | undefined;
+        handler?.(payload);
+      },
+      isPrivate
+    );
+  }, [topic, isPrivate]);
+
+  return useRealtimeStatus(topic);
+}
@@ -0,0 +1,57 @@
+import { useMutation, useQueryClient, type QueryKey } from '@tanstack/react-query';
+import { voteForTale, unvoteForTale } from '../services/api';
+import { applyVoteUpdate, choiceListFilters, storyMapFilters, taleFilters } from '../lib/taleCache';
+
+interface ToggleVoteVariables {
+  taleId: string;
+  // Vote state before the toggle: true removes the vote, false casts it
+  hasVoted: boolean;
+}
+
+interface ToggleVoteContext {
+  snapshots: [QueryKey, unknown][];
+}
+
+/**
+ * Casts or retracts the reader's vote on a tale. Vote counts live in the
+ * React Query cache (['tale', id], ['taleChoices', parentId, ...] and
+ * ['storyMap', id]), so every view of the tale - the action bar, choice
+ * cards on its parent and the story map edges behind the golden path -
+ * updates optimistically and rolls back together if the request fails.
+ * Only the voted tale itself is refetched afterwards; choice lists keep
+ * their patched, re-sorted order.
+ */
+export function useTaleVote() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, ToggleVoteVariables, ToggleVoteContext>({
+    mutationFn: ({ taleId, hasVoted }) => (hasVoted ? unvoteForTale(taleId) : voteForTale(taleId)),
+    onMutate: async ({ taleId, hasVoted }) => {
+      // Keep in-flight fetches from overwriting the optimistic counts
+      await Promise.all([
+        queryClient.cancelQueries(taleFilters(taleId)),
+        queryClient.cancelQueries(choiceListFilters(taleId)),
+        queryClient.cancelQueries(storyMapFilters(taleId)),
+      ]);
+
+      const snapshots = [
+        ...queryClient.getQueriesData(taleFilters(taleId)),
+        ...queryClient.getQueriesData(choiceListFilters(taleId)),
+        ...queryClient.getQueriesData(storyMapFilters(taleId)),
+      ];
+
+      const delta = hasVoted ? -1 : 1;
+      applyVoteUpdate(queryClient, taleId, { votes: (votes) => votes + delta, hasVoted: !hasVoted });
+
+      return { snapshots };
+    },
+    onError: (error, _variables, context) => {
+      console.error('Failed to update vote:', error);
+      context?.snapshots.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+    },
+    onSettled: (_data, _error, { taleId }) => {
+      // Reconcile the voted tale with the server; other caches keep their patched counts
+      queryClient.invalidateQueries({ queryKey: ['tale', taleId] });
+    },
+  });
+}
@@ -0,0 +1,68 @@
+import { useCallback, useRef, useSyncExternalStore } from 'react';
+
+interface UseWindowedGridOptions {
+  itemCount: number;
+  // Fixed height of one row, including the gap below it
+  rowHeight: number;
+  // Two columns from this viewport width up, one below it
+  twoColumnMinWidth?: number;
+  // Extra rows rendered above and below the viewport
+  overscan?: number;
+}
+
+const INITIAL_ROWS = 6;
+
+const subscribeToViewport = (onChange: () => void) => {
+  window.addEventListener('scroll', onChange, { passive: true });
+  window.addEventListener('resize', onChange);
+  return () => {
+    window.removeEventListener('scroll', onChange);
+    window.removeEventListener('resize', onChange);
+  };
+};
+
+/**
+ * Windowed rendering for a grid of fixed-height rows scrolled with the page.
+ * Only the items whose rows are near the viewport are returned, together
+ * with their absolute positions inside a container of `totalHeight`.
+ */
+export function useWindowedGrid({ itemCount, rowHeight, twoColumnMinWidth = 768, overscan = 3 }: UseWindowedGridOptions) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const columns = useSyncExternalStore(
+    subscribeToViewport,
+    () => (window.innerWidth >= twoColumnMinWidth ? 2 : 1),
+    () => 1
+  );
+  const rowCount = Math.ceil(itemCount / columns);
+
+  // Encoded as "first:last" so the snapshot stays a stable primitive between scroll events
+  const getRowRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return `0:${Math.min(rowCount, INITIAL_ROWS)}`;
+
+    const top = container.getBoundingClientRect().top;
+    const first = Math.max(0, Math.floor(-top / rowHeight) - overscan);
+    const last = Math.min(rowCount, Math.ceil((window.innerHeight - top) / rowHeight) + overscan);
+    return `${first}:${Math.max(first, last)}`;
+  }, [rowCount, rowHeight, overscan]);
+
+  const rowRange = useSyncExternalStore(subscribeToViewport, getRowRange, () => `0:${Math.min(rowCount, INITIAL_ROWS)}`);
+  const [firstRow, lastRow] = rowRange.split(':').map(Number);
+
+  const items = [];
+  for (let index = firstRow * columns; index < Math.min(itemCount, lastRow * columns); index++) {
+    items.push({
+      index,
+      top: Math.floor(index / columns) * rowHeight,
+      column: index % columns,
+    });
+  }
+
+  return {
+    containerRef,
+    items,
+    columns,
+    totalHeight: rowCount * rowHeight,
+  };
+}
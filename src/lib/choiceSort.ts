@@ -0,0 +1,32 @@
+import type { ChoiceSortOption } from '../services/api';
+
+/**
+ * The reader's preferred order for a chapter's choices, remembered in
+ * localStorage per signed-in user (signed-out readers share one slot).
+ */
+
+const SORT_KEY_PREFIX = 'votales:choice-sort:';
+const ANONYMOUS_KEY = 'anonymous';
+
+export const DEFAULT_CHOICE_SORT: ChoiceSortOption = 'votes';
+
+const CHOICE_SORT_OPTIONS: ChoiceSortOption[] = ['votes', 'newest', 'oldest', 'unexplored'];
+
+const getSortKey = (userId: string | null) => `${SORT_KEY_PREFIX}${userId ?? ANONYMOUS_KEY}`;
+
+export const loadChoiceSort = (userId: string | null): ChoiceSortOption => {
+  try {
+    const stored = localStorage.getItem(getSortKey(userId));
+    return CHOICE_SORT_OPTIONS.find((option) => option === stored) ?? DEFAULT_CHOICE_SORT;
+  } catch {
+    return DEFAULT_CHOICE_SORT;
+  }
+};
+
+export const saveChoiceSort = (userId: string | null, sort: ChoiceSortOption): void => {
+  try {
+    localStorage.setItem(getSortKey(userId), sort);
+  } catch (error) {
+    console.error('Failed to save choice sort:', error);
+  }
+};
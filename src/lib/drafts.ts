@@ -0,0 +1,75 @@
+/**
+ * Chapter drafts persisted to localStorage, one per signed-in writer and
+ * parent tale (or a single slot for a brand-new story), so writers don't
+ * lose work when they navigate away or a submission fails.
+ */
+
+const DRAFT_KEY_PREFIX = 'votales:draft:';
+const NEW_ROOT_KEY = 'new-root';
+
+export interface Draft {
+  // null when the draft is the first chapter of a new story
+  parentTaleId: string | null;
+  title: string;
+  content: string;
+  updatedAt: string;
+}
+
+const getUserPrefix = (userId: string) => `${DRAFT_KEY_PREFIX}${userId}:`;
+
+const getDraftKey = (userId: string, parentTaleId: string | null) =>
+  `${getUserPrefix(userId)}${parentTaleId ?? NEW_ROOT_KEY}`;
+
+const parseDraft = (raw: string | null): Draft | null => {
+  if (!raw) return null;
+  try {
+    const draft = JSON.parse(raw) as Draft;
+    return typeof draft.title === 'string' && typeof draft.content === 'string' ? draft : null;
+  } catch {
+    return null;
+  }
+};
+
+export const loadDraft = (userId: string, parentTaleId: string | null): Draft | null => {
+  try {
+    return parseDraft(localStorage.getItem(getDraftKey(userId, parentTaleId)));
+  } catch {
+    return null;
+  }
+};
+
+export const saveDraft = (userId: string, parentTaleId: string | null, title: string, content: string): void => {
+  const draft: Draft = { parentTaleId, title, content, updatedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(getDraftKey(userId, parentTaleId), JSON.stringify(draft));
+  } catch (error) {
+    // Storage full or disabled (private mode) - autosave is best effort
+    console.error('Failed to save draft:', error);
+  }
+};
+
+export const clearDraft = (userId: string, parentTaleId: string | null): void => {
+  try {
+    localStorage.removeItem(getDraftKey(userId, parentTaleId));
+  } catch {
+    // Nothing to clear if storage is unavailable
+  }
+};
+
+// The writer's saved drafts, most recently edited first
+export const listDrafts = (userId: string): Draft[] => {
+  const prefix = getUserPrefix(userId);
+  const drafts: Draft[] = [];
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(prefix)) {
+        const draft = parseDraft(localStorage.getItem(key));
+        if (draft) drafts.push(draft);
+      }
+    }
+  } catch {
+    return [];
+  }
+  return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
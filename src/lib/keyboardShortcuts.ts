@@ -0,0 +1,48 @@
+/**
+ * Keyboard shortcut definitions shown in the `?` help overlay, plus the
+ * checks that decide whether a keypress should be treated as a shortcut.
+ */
+
+export interface ShortcutDescription {
+  keys: string[];
+  description: string;
+}
+
+export interface ShortcutGroup {
+  title: string;
+  shortcuts: ShortcutDescription[];
+}
+
+export const SHORTCUT_GROUPS: ShortcutGroup[] = [
+  {
+    title: 'Anywhere',
+    shortcuts: [
+      { keys: ['/'], description: 'Search tales' },
+      { keys: ['?'], description: 'Show keyboard shortcuts' },
+      { keys: ['Esc'], description: 'Close dialogs and panels' },
+    ],
+  },
+  {
+    title: 'While reading',
+    shortcuts: [
+      { keys: ['1', '–', '9'], description: 'Choose what happens next' },
+      { keys: ['v'], description: 'Vote for this chapter, or take the vote back' },
+      { keys: ['g'], description: 'Open or close the story map' },
+      { keys: ['b'], description: 'Back to the previous chapter' },
+    ],
+  },
+];
+
+// Keys typed into form fields must never trigger shortcuts
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT'
+  );
+};
+
+// Page shortcuts are suspended while a modal dialog is open
+export const isModalOpen = (): boolean => document.querySelector('[aria-modal="true"]') !== null;
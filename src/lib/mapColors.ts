@@ -0,0 +1,183 @@
+import type { StoryMapAnalyticsResponse, StoryMapResponse } from '../services/api';
+
+/**
+ * Alternative node colourings for the story map. "status" keeps the usual
+ * current / golden-path styling; the others tint every node by one of its
+ * properties so patterns across the tree stand out. Heatmap overlays go
+ * further and weight the edges too, showing where readers actually go.
+ */
+
+export type MapColorMode = 'status' | 'votes' | 'recency' | 'author';
+
+// What the legend shows for a colouring: a low-to-high scale, or one swatch per author
+export type MapColorLegend =
+  | { kind: 'scale'; lowLabel: string; highLabel: string; hasUnknown: boolean }
+  | { kind: 'swatches'; items: { label: string; color: string }[]; moreCount: number };
+
+export interface MapColoring {
+  // Node id -> colour
+  colors: Map<string, string>;
+  legend: MapColorLegend;
+}
+
+// Low-to-high ends of the votes and recency scales, as HSL hue/saturation/lightness
+const SCALE_START = [215, 20, 35];
+const SCALE_END = [38, 92, 55];
+
+export const getScaleColor = (value: number): string => {
+  const t = Math.min(1, Math.max(0, value));
+  const [h, s, l] = SCALE_START.map((start, i) => start + (SCALE_END[i] - start) * t);
+  return `hsl(${Math.round(h)} ${Math.round(s)}% ${Math.round(l)}%)`;
+};
+
+// CSS interpolates in RGB, so a few stops keep the legend close to the HSL scale
+export const SCALE_GRADIENT = `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(getScaleColor).join(', ')})`;
+
+// Stable colour per author so the same writer looks the same across stories
+const getAuthorColor = (authorName: string): string => {
+  let hash = 0;
+  for (let i = 0; i < authorName.length; i++) {
+    hash = (hash * 31 + authorName.charCodeAt(i)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360} 70% 62%)`;
+};
+
+export const UNKNOWN_COLOR = 'hsl(215 16% 47%)';
+
+// The legend lists the most prolific authors and counts the rest
+const MAX_LEGEND_AUTHORS = 6;
+
+// Math.max(...values) overflows the call stack on maps with tens of thousands of nodes
+const maxOf = (values: Iterable<number>, initial: number) => {
+  let max = initial;
+  for (const value of values) max = Math.max(max, value);
+  return max;
+};
+
+const formatShortDate = (time: number) =>
+  new Date(time).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// Node colours and their legend, or null for the default status styling
+export const getNodeColors = (map: StoryMapResponse, mode: MapColorMode): MapColoring | null => {
+  if (mode === 'status') return null;
+  const colors = new Map<string, string>();
+
+  if (mode === 'author') {
+    const chapterCounts = new Map<string, number>();
+    map.nodes.forEach((node) => {
+      colors.set(node.id, node.authorName ? getAuthorColor(node.authorName) : UNKNOWN_COLOR);
+      const author = node.authorName || '';
+      chapterCounts.set(author, (chapterCounts.get(author) ?? 0) + 1);
+    });
+    const authors = [...chapterCounts.entries()].sort((a, b) => b[1] - a[1]).map(([author]) => author);
+    const items = authors.slice(0, MAX_LEGEND_AUTHORS).map((author) => ({
+      label: author || 'Anonymous',
+      color: author ? getAuthorColor(author) : UNKNOWN_COLOR,
+    }));
+    return { colors, legend: { kind: 'swatches', items, moreCount: authors.length - items.length } };
+  }
+
+  const hasUnknown = map.nodes.some((node) => (mode === 'votes' ? node.votes === undefined : !node.createdAt));
+
+  if (mode === 'votes') {
+    // Square root so a single runaway favourite doesn't flatten everything else
+    const maxVotes = maxOf(map.nodes.map((node) => node.votes ?? 0), 0);
+    map.nodes.forEach((node) =>
+      colors.set(
+        node.id,
+        node.votes === undefined ? UNKNOWN_COLOR : getScaleColor(maxVotes > 0 ? Math.sqrt(node.votes / maxVotes) : 0)
+      )
+    );
+    const highLabel = `${maxVotes} ${maxVotes === 1 ? 'vote' : 'votes'}`;
+    return { colors, legend: { kind: 'scale', lowLabel: '0 votes', highLabel, hasUnknown } };
+  }
+
+  // Recency: rank rather than raw time, so a burst of recent writing doesn't wash out older branches
+  const dated = map.nodes
+    .filter((node) => node.createdAt)
+    .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime());
+  map.nodes.forEach((node) => colors.set(node.id, UNKNOWN_COLOR));
+  dated.forEach((node, index) => colors.set(node.id, getScaleColor(dated.length > 1 ? index / (dated.length - 1) : 1)));
+  const [oldest, newest] = [dated[0], dated[dated.length - 1]].map((node) => node && new Date(node.createdAt!).getTime());
+  return {
+    colors,
+    legend: {
+      kind: 'scale',
+      lowLabel: oldest === undefined ? 'Older' : formatShortDate(oldest),
+      highLabel: newest === undefined ? 'Newer' : formatShortDate(newest),
+      hasUnknown,
+    },
+  };
+};
+
+// Heatmap overlays
+
+export type MapOverlayMode = 'votes' | 'activity' | 'traffic';
+
+export interface MapHeat {
+  // Node id -> intensity between 0 and 1
+  values: Map<string, number>;
+  lowLabel: string;
+  highLabel: string;
+}
+
+// Cold to hot; also drawn as the legend's gradient
+export const HEAT_STOPS = ['#1e1b4b', '#7c3aed', '#f97316', '#facc15'];
+
+const hexToRgb = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+
+export const getHeatColor = (value: number): string => {
+  const scaled = Math.min(1, Math.max(0, value)) * (HEAT_STOPS.length - 1);
+  const index = Math.min(HEAT_STOPS.length - 2, Math.floor(scaled));
+  const from = hexToRgb(HEAT_STOPS[index]);
+  const to = hexToRgb(HEAT_STOPS[index + 1]);
+  const t = scaled - index;
+  const [r, g, b] = from.map((start, i) => Math.round(start + (to[i] - start) * t));
+  return `rgb(${r} ${g} ${b})`;
+};
+
+// Intensities for an overlay; activity and traffic need the analytics response
+export const getMapHeat = (
+  map: StoryMapResponse,
+  mode: MapOverlayMode,
+  analytics?: StoryMapAnalyticsResponse | null
+): MapHeat => {
+  const values = new Map<string, number>();
+
+  if (mode === 'votes') {
+    const maxVotes = maxOf(map.nodes.map((node) => node.votes ?? 0), 0);
+    map.nodes.forEach((node) => values.set(node.id, maxVotes > 0 ? Math.sqrt((node.votes ?? 0) / maxVotes) : 0));
+    return { values, lowLabel: '0 votes', highLabel: `${maxVotes} ${maxVotes === 1 ? 'vote' : 'votes'}` };
+  }
+
+  const byTale = new Map(analytics?.nodes.map((node) => [node.taleId, node]));
+
+  if (mode === 'traffic') {
+    // Log scale: a handful of visits should still register next to the opening chapter's thousands
+    const maxVisits = maxOf(map.nodes.map((node) => byTale.get(node.id)?.visits ?? 0), 0);
+    map.nodes.forEach((node) => {
+      const visits = byTale.get(node.id)?.visits ?? 0;
+      values.set(node.id, maxVisits > 0 ? Math.log1p(visits) / Math.log1p(maxVisits) : 0);
+    });
+    return { values, lowLabel: '0 visits', highLabel: `${maxVisits.toLocaleString()} ${maxVisits === 1 ? 'visit' : 'visits'}` };
+  }
+
+  const times = new Map<string, number>();
+  map.nodes.forEach((node) => {
+    const lastActivityAt = byTale.get(node.id)?.lastActivityAt ?? node.createdAt;
+    if (lastActivityAt) times.set(node.id, new Date(lastActivityAt).getTime());
+  });
+  if (times.size === 0) return { values, lowLabel: 'Older', highLabel: 'Recent' };
+
+  let oldest = Infinity;
+  let newest = -Infinity;
+  times.forEach((time) => {
+    oldest = Math.min(oldest, time);
+    newest = Math.max(newest, time);
+  });
+  map.nodes.forEach((node) => {
+    const time = times.get(node.id);
+    values.set(node.id, time === undefined ? 0 : newest > oldest ? (time - oldest) / (newest - oldest) : 1);
+  });
+  return { values, lowLabel: formatShortDate(oldest), highLabel: formatShortDate(newest) };
+};
@@ -0,0 +1,278 @@
+import { Position } from 'reactflow';
+import type { StoryMapResponse } from '../services/api';
+import { processGoldenPath, getGoldenPathNodeIds } from './storyPath';
+import { LANE_DOT_SIZE, NODE_HEIGHT, NODE_WIDTH, type MapLayout, type NodePosition } from './mapLayout';
+import { downloadFile, escapeXml, toFileName } from './storyExport';
+
+/**
+ * Client-side export of the story map: the graph as shown on screen as an SVG
+ * or PNG image, and the raw map as JSON or GraphML (with vote weights and
+ * golden-path flags) for analysis in other tools.
+ */
+
+export type MapExportFormat = 'svg' | 'png' | 'json' | 'graphml';
+
+const edgeKey = (sourceId: string, targetId: string) => `${sourceId}-${targetId}`;
+
+export const buildStoryMapJson = (map: StoryMapResponse): string => JSON.stringify(map, null, 2);
+
+export const buildStoryMapGraphML = (map: StoryMapResponse): string => {
+  const goldenPath = processGoldenPath(map.edges);
+  const goldenNodes = getGoldenPathNodeIds(map.edges);
+
+  const nodes = map.nodes.map(
+    (node) => `    <node id="${escapeXml(node.id)}">
+      <data key="label">${escapeXml(node.label || 'Untitled')}</data>
+      <data key="type">${node.type}</data>
+      <data key="deleted">${node.isDeleted}</data>
+      <data key="nodeGolden">${goldenNodes.has(node.id)}</data>
+    </node>`
+  );
+  const edges = map.edges.map(
+    (edge) => `    <edge source="${escapeXml(edge.sourceId)}" target="${escapeXml(edge.targetId)}">
+      <data key="votes">${edge.votes}</data>
+      <data key="edgeGolden">${goldenPath.has(edgeKey(edge.sourceId, edge.targetId))}</data>
+    </edge>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <key id="label" for="node" attr.name="label" attr.type="string" />
+  <key id="type" for="node" attr.name="type" attr.type="string" />
+  <key id="deleted" for="node" attr.name="deleted" attr.type="boolean" />
+  <key id="nodeGolden" for="node" attr.name="goldenPath" attr.type="boolean" />
+  <key id="votes" for="edge" attr.name="votes" attr.type="int" />
+  <key id="edgeGolden" for="edge" attr.name="goldenPath" attr.type="boolean" />
+  <graph id="story" edgedefault="directed">
+${[...nodes, ...edges].join('\n')}
+  </graph>
+</graphml>
+`;
+};
+
+// Image export
+
+const IMAGE_PADDING = 40;
+const LABEL_MAX_CHARS = 28;
+// Browsers refuse to allocate canvases much larger than this per side
+const MAX_CANVAS_SIDE = 16384;
+
+const COLORS = {
+  background: '#0f172a',
+  node: '#0f172a',
+  border: '#334155',
+  current: '#8b5cf6',
+  winner: '#fbbf24',
+  path: '#a78bfa',
+  label: '#e2e8f0',
+  muted: '#64748b',
+};
+
+const truncate = (text: string) =>
+  text.length > LABEL_MAX_CHARS ? `${text.slice(0, LABEL_MAX_CHARS - 1)}…` : text;
+
+// Point where an edge meets a node, matching where React Flow draws its handle
+const getAnchor = (position: NodePosition, side: Position, isCompact: boolean): NodePosition => {
+  const width = isCompact ? LANE_DOT_SIZE : NODE_WIDTH;
+  const height = isCompact ? LANE_DOT_SIZE : NODE_HEIGHT;
+  switch (side) {
+    case Position.Left:
+      return { x: position.x, y: position.y + height / 2 };
+    case Position.Right:
+      return { x: position.x + width, y: position.y + height / 2 };
+    case Position.Top:
+      return { x: position.x + width / 2, y: position.y };
+    default:
+      return { x: position.x + width / 2, y: position.y + height };
+  }
+};
+
+const SIDE_DIRECTIONS: Record<Position, NodePosition> = {
+  [Position.Left]: { x: -1, y: 0 },
+  [Position.Right]: { x: 1, y: 0 },
+  [Position.Top]: { x: 0, y: -1 },
+  [Position.Bottom]: { x: 0, y: 1 },
+};
+
+const getEdgePath = (from: NodePosition, to: NodePosition, fromSide: Position, toSide: Position, isLane: boolean) => {
+  if (isLane) {
+    // Same shape as the on-screen lane edges
+    if (from.x === to.x) return `M ${from.x},${from.y} L ${to.x},${to.y}`;
+    const curveEndY = Math.min(from.y + 16, to.y);
+    return `M ${from.x},${from.y} C ${from.x},${curveEndY} ${to.x},${from.y} ${to.x},${curveEndY} L ${to.x},${to.y}`;
+  }
+  const bend = Math.max(40, Math.hypot(to.x - from.x, to.y - from.y) / 3);
+  const out = SIDE_DIRECTIONS[fromSide];
+  const back = SIDE_DIRECTIONS[toSide];
+  return `M ${from.x},${from.y} C ${from.x + out.x * bend},${from.y + out.y * bend} ${to.x + back.x * bend},${to.y + back.y * bend} ${to.x},${to.y}`;
+};
+
+// A chapter as the story map shows it, after filters, dimming, colour mode and heatmap
+export interface MapImageNode {
+  id: string;
+  label: string;
+  isDeleted: boolean;
+  isCurrent: boolean;
+  isOnWinnerPath: boolean;
+  isOnCurrentPath?: boolean;
+  isDimmed?: boolean;
+  accentColor?: string;
+}
+
+export interface MapImageEdge {
+  sourceId: string;
+  targetId: string;
+  stroke: string;
+  strokeWidth: number;
+  opacity: number;
+  label?: string;
+}
+
+// Only what is visible on screen; hidden chapters and their edges are left out
+export interface StoryMapView {
+  nodes: MapImageNode[];
+  edges: MapImageEdge[];
+}
+
+const getNodeStroke = (node: MapImageNode) => {
+  if (node.isCurrent) return COLORS.current;
+  if (node.accentColor) return node.accentColor;
+  if (node.isDeleted) return COLORS.border;
+  if (node.isOnWinnerPath) return COLORS.winner;
+  return node.isOnCurrentPath ? COLORS.path : COLORS.border;
+};
+
+// Standalone SVG of the map as shown on screen; fonts fall back to the system sans-serif
+export const buildStoryMapSvg = (view: StoryMapView, layout: MapLayout): string => {
+  const isCompact = layout.kind === 'lanes';
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  view.nodes.forEach((node) => {
+    const position = layout.positions.get(node.id);
+    if (!position) return;
+    const width = isCompact ? LANE_DOT_SIZE + (layout.labelOffsets?.get(node.id) ?? 0) + 7 * LABEL_MAX_CHARS : NODE_WIDTH;
+    minX = Math.min(minX, position.x);
+    minY = Math.min(minY, position.y);
+    maxX = Math.max(maxX, position.x + width);
+    maxY = Math.max(maxY, position.y + (isCompact ? LANE_DOT_SIZE : NODE_HEIGHT));
+  });
+  if (minX === Infinity) {
+    minX = minY = maxX = maxY = 0;
+  }
+  const width = Math.ceil(maxX - minX + IMAGE_PADDING * 2);
+  const height = Math.ceil(maxY - minY + IMAGE_PADDING * 2);
+  // Shift everything so the top-left node sits inside the padding
+  const shift = (position: NodePosition) => ({
+    x: position.x - minX + IMAGE_PADDING,
+    y: position.y - minY + IMAGE_PADDING,
+  });
+
+  const edges = view.edges.flatMap((edge) => {
+    const source = layout.positions.get(edge.sourceId);
+    const target = layout.positions.get(edge.targetId);
+    const sourceHandles = layout.handles.get(edge.sourceId);
+    const targetHandles = layout.handles.get(edge.targetId);
+    if (!source || !target || !sourceHandles || !targetHandles) return [];
+
+    const from = getAnchor(shift(source), sourceHandles.source, isCompact);
+    const to = getAnchor(shift(target), targetHandles.target, isCompact);
+    const opacity = edge.opacity < 1 ? ` opacity="${edge.opacity}"` : '';
+    const path = `<path d="${getEdgePath(from, to, sourceHandles.source, targetHandles.target, isCompact)}" fill="none" stroke="${
+      edge.stroke
+    }" stroke-width="${edge.strokeWidth}"${opacity} />`;
+    if (!edge.label) return [path];
+
+    const labelX = (from.x + to.x) / 2;
+    const labelY = (from.y + to.y) / 2;
+    return [
+      path,
+      `<text x="${labelX}" y="${labelY + 3}" text-anchor="middle" font-size="10" fill="#94a3b8" stroke="${COLORS.background}" stroke-width="3" paint-order="stroke">${escapeXml(edge.label)}</text>`,
+    ];
+  });
+
+  const nodes = view.nodes.flatMap((node) => {
+    const position = layout.positions.get(node.id);
+    if (!position) return [];
+    const { x, y } = shift(position);
+    const label = escapeXml(truncate(node.isDeleted ? '[Deleted]' : node.label || 'Untitled'));
+    const stroke = getNodeStroke(node);
+    const dash = node.isDeleted ? ' stroke-dasharray="4 3"' : '';
+    const textColor = node.isDeleted ? COLORS.muted : COLORS.label;
+    // Same fading as the on-screen nodes
+    const opacity = node.isDimmed ? 0.25 : node.isDeleted ? 0.5 : 1;
+
+    let shapes: string[];
+    if (isCompact) {
+      const radius = LANE_DOT_SIZE / 2;
+      const labelX = x + LANE_DOT_SIZE + (layout.labelOffsets?.get(node.id) ?? 0);
+      const fill = node.isCurrent ? COLORS.current : node.accentColor ?? COLORS.node;
+      shapes = [
+        `<circle cx="${x + radius}" cy="${y + radius}" r="${radius - 1}" fill="${fill}" stroke="${stroke}" stroke-width="2"${dash} />`,
+        `<text x="${labelX}" y="${y + radius + 4}" font-size="11" fill="${textColor}">${label}</text>`,
+      ];
+    } else {
+      shapes = [
+        `<rect x="${x}" y="${y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="12" fill="${COLORS.node}" stroke="${stroke}" stroke-width="2"${dash} />`,
+        `<text x="${x + 12}" y="${y + NODE_HEIGHT / 2 + 4}" font-size="12" fill="${textColor}">${label}</text>`,
+      ];
+    }
+    return opacity < 1 ? [`<g opacity="${opacity}">${shapes.join('')}</g>`] : shapes;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="ui-sans-serif, system-ui, sans-serif">
+  <rect width="100%" height="100%" fill="${COLORS.background}" />
+  ${edges.join('\n  ')}
+  ${nodes.join('\n  ')}
+</svg>
+`;
+};
+
+// Draws the SVG onto a canvas, scaled down if the map is too large for one
+export const rasterizeSvg = (svg: string, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const fit = Math.min(scale, MAX_CANVAS_SIDE / image.width, MAX_CANVAS_SIDE / image.height);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.floor(image.width * fit));
+      canvas.height = Math.max(1, Math.floor(image.height * fit));
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not supported'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode PNG'))), 'image/png');
+    };
+    image.onerror = () => reject(new Error('Could not render the story map image'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+
+// Images are drawn from `view`, the data formats from the full `map`
+export const downloadStoryMap = async (
+  storyTitle: string,
+  map: StoryMapResponse,
+  view: StoryMapView,
+  layout: MapLayout,
+  format: MapExportFormat
+) => {
+  const baseName = `${toFileName(storyTitle)}-map`;
+  switch (format) {
+    case 'svg':
+      downloadFile(`${baseName}.svg`, buildStoryMapSvg(view, layout), 'image/svg+xml');
+      break;
+    case 'png':
+      downloadFile(`${baseName}.png`, await rasterizeSvg(buildStoryMapSvg(view, layout)), 'image/png');
+      break;
+    case 'json':
+      downloadFile(`${baseName}.json`, buildStoryMapJson(map), 'application/json');
+      break;
+    case 'graphml':
+      downloadFile(`${baseName}.graphml`, buildStoryMapGraphML(map), 'application/graphml+xml');
+      break;
+  }
+};
@@ -0,0 +1,322 @@
+import dagre from 'dagre';
+import { Position } from 'reactflow';
+import type { StoryMapResponse } from '../services/api';
+
+/**
+ * Story map node positions, cached by the shape of the map so reopening
+ * the graph, toggling filters or patching vote counts never re-runs the
+ * layout. Only adding or removing nodes and edges (or switching layouts)
+ * produces a new one.
+ */
+
+export type MapLayoutKind = 'horizontal' | 'vertical' | 'radial' | 'lanes';
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+// Which sides of a node its incoming and outgoing edges attach to
+export interface NodeHandles {
+  target: Position;
+  source: Position;
+}
+
+export interface MapLayout {
+  kind: MapLayoutKind;
+  positions: Map<string, NodePosition>;
+  handles: Map<string, NodeHandles>;
+  // Lanes view only: distance from a node's dot to where its label starts,
+  // so every label lines up to the right of all lanes like `git log --graph`
+  labelOffsets?: Map<string, number>;
+}
+
+// Size of the pill-shaped story nodes
+export const NODE_WIDTH = 180;
+export const NODE_HEIGHT = 50;
+
+// Lanes view: commit-style dots on a grid
+export const LANE_DOT_SIZE = 12;
+const LANE_WIDTH = 24;
+const LANE_ROW_HEIGHT = 32;
+const LANE_LABEL_GAP = 16;
+
+// Radial view: distance between depth rings, and the minimum arc between neighbours
+const RADIAL_RING_GAP = 240;
+const RADIAL_NODE_SPACING = 120;
+
+const LEFT_TO_RIGHT: NodeHandles = { target: Position.Left, source: Position.Right };
+const TOP_TO_BOTTOM: NodeHandles = { target: Position.Top, source: Position.Bottom };
+
+const MAX_CACHED_LAYOUTS = 8;
+const layoutCache = new Map<string, MapLayout>();
+
+// Every node and edge id, so two different maps can never share a cache entry.
+// The lanes view keeps the most-voted child on its parent's lane, so votes count there.
+const getStructureKey = (map: StoryMapResponse, includeVotes: boolean): string => {
+  const nodeIds = map.nodes.map((node) => node.id).join(',');
+  const edgeIds = map.edges
+    .map((edge) => `${edge.sourceId}>${edge.targetId}${includeVotes ? `:${edge.votes}` : ''}`)
+    .join(',');
+  return `${nodeIds}|${edgeIds}`;
+};
+
+const withHandles = (map: StoryMapResponse, handles: NodeHandles) =>
+  new Map(map.nodes.map((node) => [node.id, handles]));
+
+// Children per node in edge order, plus the nodes nothing points to
+const getTree = (map: StoryMapResponse) => {
+  const children = new Map<string, string[]>();
+  const hasParent = new Set<string>();
+  map.edges.forEach((edge) => {
+    children.set(edge.sourceId, [...(children.get(edge.sourceId) ?? []), edge.targetId]);
+    hasParent.add(edge.targetId);
+  });
+  const roots = map.nodes.filter((node) => !hasParent.has(node.id)).map((node) => node.id);
+  return { children, roots };
+};
+
+const computeDagreLayout = (map: StoryMapResponse, kind: 'horizontal' | 'vertical'): MapLayout => {
+  // Create a fresh graph for each layout
+  const g = new dagre.graphlib.Graph();
+  g.setDefaultEdgeLabel(() => ({}));
+  g.setGraph(
+    kind === 'horizontal'
+      ? { rankdir: 'LR', nodesep: 60, ranksep: 120 }
+      : { rankdir: 'TB', nodesep: 40, ranksep: 80 }
+  );
+
+  map.nodes.forEach((node) => {
+    g.setNode(node.id, { width: NODE_WIDTH, height: NODE_HEIGHT });
+  });
+
+  map.edges.forEach((edge) => {
+    g.setEdge(edge.sourceId, edge.targetId);
+  });
+
+  dagre.layout(g);
+
+  const positions = new Map<string, NodePosition>();
+  map.nodes.forEach((node) => {
+    const nodeWithPosition = g.node(node.id);
+    positions.set(node.id, {
+      x: nodeWithPosition.x - NODE_WIDTH / 2,
+      y: nodeWithPosition.y - NODE_HEIGHT / 2,
+    });
+  });
+  return { kind, positions, handles: withHandles(map, kind === 'horizontal' ? LEFT_TO_RIGHT : TOP_TO_BOTTOM) };
+};
+
+// Edges leave a node on the side facing away from the centre and arrive on the side facing it
+const getRadialHandles = (angle: number): NodeHandles => {
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    return dx >= 0 ? LEFT_TO_RIGHT : { target: Position.Right, source: Position.Left };
+  }
+  return dy >= 0 ? TOP_TO_BOTTOM : { target: Position.Bottom, source: Position.Top };
+};
+
+// Root in the centre, one ring per depth, each subtree getting a wedge sized by its leaf count
+const computeRadialLayout = (map: StoryMapResponse): MapLayout => {
+  const { children, roots } = getTree(map);
+
+  // Tree walks here and below keep their own stack: a chain of thousands of
+  // chapters would overflow the call stack if they recursed
+  const leafCounts = new Map<string, number>();
+  const countLeaves = (root: string, seen: Set<string>): number => {
+    if (seen.has(root)) return 0;
+    seen.add(root);
+    const stack = [{ id: root, next: 0, leaves: 0 }];
+    let rootLeaves = 0;
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const kids = children.get(frame.id) ?? [];
+      if (frame.next < kids.length) {
+        const kid = kids[frame.next++];
+        if (!seen.has(kid)) {
+          seen.add(kid);
+          stack.push({ id: kid, next: 0, leaves: 0 });
+        }
+        continue;
+      }
+      stack.pop();
+      const count = Math.max(1, kids.length === 0 ? 1 : frame.leaves);
+      leafCounts.set(frame.id, count);
+      if (stack.length > 0) {
+        stack[stack.length - 1].leaves += count;
+      } else {
+        rootLeaves = count;
+      }
+    }
+    return rootLeaves;
+  };
+  const seen = new Set<string>();
+  const totalLeaves = roots.reduce((sum, root) => sum + countLeaves(root, seen), 0) || 1;
+
+  // Angle and depth per node; several roots share the centre ring
+  const placements = new Map<string, { angle: number; depth: number }>();
+  const minWedgeByDepth: number[] = [];
+  const place = (root: string, rootStart: number, rootWedge: number, rootDepth: number) => {
+    const stack: { id: string; wedge: number; depth: number; next: number; childStart: number }[] = [];
+    const enter = (id: string, start: number, wedge: number, depth: number) => {
+      if (placements.has(id)) return;
+      placements.set(id, { angle: start + wedge / 2, depth });
+      minWedgeByDepth[depth] = Math.min(minWedgeByDepth[depth] ?? Infinity, wedge);
+      stack.push({ id, wedge, depth, next: 0, childStart: start });
+    };
+    enter(root, rootStart, rootWedge, rootDepth);
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const kids = children.get(frame.id) ?? [];
+      if (frame.next >= kids.length) {
+        stack.pop();
+        continue;
+      }
+      const kid = kids[frame.next++];
+      const kidWedge = (frame.wedge * (leafCounts.get(kid) ?? 1)) / (leafCounts.get(frame.id) ?? 1);
+      const kidStart = frame.childStart;
+      frame.childStart += kidWedge;
+      enter(kid, kidStart, kidWedge, frame.depth + 1);
+    }
+  };
+  const rootDepth = roots.length > 1 ? 1 : 0;
+  let rootStart = 0;
+  roots.forEach((root) => {
+    const wedge = (2 * Math.PI * (leafCounts.get(root) ?? 1)) / totalLeaves;
+    place(root, rootStart, wedge, rootDepth);
+    rootStart += wedge;
+  });
+
+  // Rings grow outwards far enough that the tightest wedge on each still fits a node
+  const radii: number[] = [0];
+  for (let depth = 1; depth < minWedgeByDepth.length; depth++) {
+    const needed = RADIAL_NODE_SPACING / (minWedgeByDepth[depth] ?? Infinity);
+    radii[depth] = Math.max(radii[depth - 1] + RADIAL_RING_GAP, needed);
+  }
+
+  const positions = new Map<string, NodePosition>();
+  const handles = new Map<string, NodeHandles>();
+  map.nodes.forEach((node, index) => {
+    // Nodes outside the tree (shouldn't happen) are parked in a row below it
+    const placement = placements.get(node.id);
+    if (!placement) {
+      positions.set(node.id, { x: index * (NODE_WIDTH + 20), y: (radii[radii.length - 1] ?? 0) + RADIAL_RING_GAP });
+      handles.set(node.id, LEFT_TO_RIGHT);
+      return;
+    }
+    const radius = radii[placement.depth] ?? 0;
+    positions.set(node.id, {
+      x: radius * Math.cos(placement.angle) - NODE_WIDTH / 2,
+      y: radius * Math.sin(placement.angle) - NODE_HEIGHT / 2,
+    });
+    handles.set(node.id, getRadialHandles(placement.angle));
+  });
+  return { kind: 'radial', positions, handles };
+};
+
+// `git log --graph` style: one row per chapter in depth-first order. The most-voted
+// child continues its parent's lane; other children branch into the nearest free lane.
+const computeLaneLayout = (map: StoryMapResponse): MapLayout => {
+  const { children, roots } = getTree(map);
+  const votes = new Map(map.edges.map((edge) => [`${edge.sourceId}>${edge.targetId}`, edge.votes]));
+
+  const rows = new Map<string, { row: number; lane: number }>();
+  // Last row each lane is occupied down to
+  const laneEnds: number[] = [];
+  let nextRow = 0;
+
+  const claimLane = (fromRow: number) => {
+    const lane = laneEnds.findIndex((end) => end < fromRow);
+    return lane === -1 ? laneEnds.length : lane;
+  };
+
+  const visit = (root: string, rootLane: number) => {
+    const stack: { row: number; lane: number; kids: string[]; next: number }[] = [];
+    const enter = (id: string, lane: number) => {
+      if (rows.has(id)) return;
+      const row = nextRow++;
+      rows.set(id, { row, lane });
+      laneEnds[lane] = row;
+      const kids = [...(children.get(id) ?? [])].sort(
+        (a, b) => (votes.get(`${id}>${b}`) ?? 0) - (votes.get(`${id}>${a}`) ?? 0)
+      );
+      stack.push({ row, lane, kids, next: 0 });
+    };
+    enter(root, rootLane);
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.next >= frame.kids.length) {
+        stack.pop();
+        continue;
+      }
+      const index = frame.next++;
+      // The branch line runs from this row down to the child's, so the lane must be free from here
+      enter(frame.kids[index], index === 0 ? frame.lane : claimLane(frame.row));
+    }
+  };
+  roots.forEach((root) => visit(root, claimLane(nextRow)));
+  map.nodes.forEach((node) => visit(node.id, claimLane(nextRow)));
+
+  const labelStart = laneEnds.length * LANE_WIDTH + LANE_LABEL_GAP;
+  const positions = new Map<string, NodePosition>();
+  const labelOffsets = new Map<string, number>();
+  rows.forEach(({ row, lane }, id) => {
+    positions.set(id, { x: lane * LANE_WIDTH, y: row * LANE_ROW_HEIGHT });
+    labelOffsets.set(id, labelStart - lane * LANE_WIDTH - LANE_DOT_SIZE);
+  });
+  return { kind: 'lanes', positions, handles: withHandles(map, TOP_TO_BOTTOM), labelOffsets };
+};
+
+const computeLayout = (map: StoryMapResponse, kind: MapLayoutKind): MapLayout => {
+  switch (kind) {
+    case 'radial':
+      return computeRadialLayout(map);
+    case 'lanes':
+      return computeLaneLayout(map);
+    default:
+      return computeDagreLayout(map, kind);
+  }
+};
+
+export const getMapLayout = (map: StoryMapResponse, kind: MapLayoutKind = 'horizontal'): MapLayout => {
+  const key = `${kind}:${getStructureKey(map, kind === 'lanes')}`;
+  const cached = layoutCache.get(key);
+  if (cached) {
+    // Re-insert to mark as most recently used
+    layoutCache.delete(key);
+    layoutCache.set(key, cached);
+    return cached;
+  }
+
+  const layout = computeLayout(map, kind);
+  layoutCache.set(key, layout);
+  if (layoutCache.size > MAX_CACHED_LAYOUTS) {
+    layoutCache.delete(layoutCache.keys().next().value!);
+  }
+  return layout;
+};
+
+// The chosen layout is a display preference for this browser, not per reader
+const LAYOUT_KEY = 'votales:map-layout';
+
+export const DEFAULT_MAP_LAYOUT: MapLayoutKind = 'horizontal';
+
+const MAP_LAYOUT_KINDS: MapLayoutKind[] = ['horizontal', 'vertical', 'radial', 'lanes'];
+
+export const loadMapLayoutKind = (): MapLayoutKind => {
+  try {
+    const stored = localStorage.getItem(LAYOUT_KEY);
+    return MAP_LAYOUT_KINDS.find((kind) => kind === stored) ?? DEFAULT_MAP_LAYOUT;
+  } catch {
+    return DEFAULT_MAP_LAYOUT;
+  }
+};
+
+export const saveMapLayoutKind = (kind: MapLayoutKind): void => {
+  try {
+    localStorage.setItem(LAYOUT_KEY, kind);
+  } catch (error) {
+    console.error('Failed to save map layout:', error);
+  }
+};
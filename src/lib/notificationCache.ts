@@ -0,0 +1,59 @@
+import type { InfiniteData, QueryClient, QueryKey } from '@tanstack/react-query';
+import type { Notification, PaginatedResponse } from '../services/api';
+
+/**
+ * Notifications live in two places in the React Query cache: the bell's
+ * recent list under ['notifications'] and the paged history under
+ * ['notifications', 'history', { type, unreadOnly }]. Both share the
+ * ['notifications'] prefix, so one invalidation refreshes everything.
+ */
+
+export const NOTIFICATIONS_KEY = ['notifications'] as const;
+export const NOTIFICATION_HISTORY_KEY = ['notifications', 'history'] as const;
+
+type NotificationPages = InfiniteData<PaginatedResponse<Notification>>;
+
+// Return null to drop the notification
+export type NotificationUpdate = (notification: Notification) => Notification | null;
+
+const applyUpdate = (notifications: Notification[], update: NotificationUpdate) =>
+  notifications.flatMap((notification) => update(notification) ?? []);
+
+export const snapshotNotifications = (queryClient: QueryClient): [QueryKey, unknown][] =>
+  queryClient.getQueriesData({ queryKey: NOTIFICATIONS_KEY });
+
+export const restoreNotifications = (queryClient: QueryClient, snapshots: [QueryKey, unknown][]) => {
+  snapshots.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+};
+
+// Applies an edit to every cached copy, for optimistic read/delete
+export const updateCachedNotifications = (queryClient: QueryClient, update: NotificationUpdate) => {
+  queryClient.setQueryData<Notification[]>(NOTIFICATIONS_KEY, (notifications) =>
+    notifications ? applyUpdate(notifications, update) : notifications
+  );
+  queryClient.setQueriesData<NotificationPages>({ queryKey: NOTIFICATION_HISTORY_KEY }, (history) => {
+    if (!history) return history;
+    const pageItems = history.pages.map((page) => applyUpdate(page.items, update));
+    // totalCount is the whole list's size, so every page loses the overall removals
+    const removedCount = history.pages.reduce((count, page, index) => count + page.items.length - pageItems[index].length, 0);
+    return {
+      ...history,
+      pages: history.pages.map((page, index) => ({
+        ...page,
+        items: pageItems[index],
+        totalCount: page.totalCount - removedCount,
+      })),
+    };
+  });
+};
+
+// Newest first, ignoring notifications already in the list
+export const addNotification = (queryClient: QueryClient, notification: Notification) => {
+  queryClient.setQueryData<Notification[]>(NOTIFICATIONS_KEY, (notifications) =>
+    notifications && !notifications.some((existing) => existing.id === notification.id)
+      ? [notification, ...notifications]
+      : notifications
+  );
+  // Paged history depends on the server's filters, so let it refetch
+  queryClient.invalidateQueries({ queryKey: NOTIFICATION_HISTORY_KEY });
+};
@@ -0,0 +1,34 @@
+import type { NotificationType } from '../services/api';
+
+/**
+ * Display helpers shared by the notification bell, the notifications page
+ * and the notification settings.
+ */
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  NEW_BRANCH: 'New branches',
+  VOTE_RECEIVED: 'Votes',
+  MILESTONE: 'Milestones',
+};
+
+export const NOTIFICATION_TYPE_DESCRIPTIONS: Record<NotificationType, string> = {
+  NEW_BRANCH: 'Someone continues one of your chapters',
+  VOTE_RECEIVED: 'A reader appreciates one of your chapters',
+  MILESTONE: 'Your chapters or stories reach a vote or reader milestone',
+};
+
+// "5m ago" for recent notifications, a plain date after a week
+export const formatNotificationTime = (dateString: string) => {
+  const date = new Date(dateString);
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffDays = Math.floor(diffMs / 86400000);
+
+  if (diffMins < 1) return 'Just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return date.toLocaleDateString();
+};
@@ -0,0 +1,115 @@
+import type { StoryMapResponse, TaleResponse } from '../services/api';
+
+/**
+ * IndexedDB-backed cache for tales and story maps so chapters that were
+ * already read (or explicitly saved) stay readable without a connection.
+ * Every operation fails soft: a broken or missing IndexedDB never breaks
+ * the network path, it just means nothing is served offline.
+ */
+
+const DB_NAME = 'votales-offline';
+const DB_VERSION = 1;
+const TALE_STORE = 'tales';
+const MAP_STORE = 'storyMaps';
+
+type StoreName = typeof TALE_STORE | typeof MAP_STORE;
+
+interface CachedRecord<T> {
+  id: string;
+  data: T;
+  cachedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TALE_STORE)) {
+          db.createObjectStore(TALE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(MAP_STORE)) {
+          db.createObjectStore(MAP_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Allow a later call to retry opening the database
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const writeRecord = async <T>(storeName: StoreName, id: string, data: T): Promise<void> => {
+  try {
+    const record: CachedRecord<T> = { id, data, cachedAt: new Date().toISOString() };
+    await runRequest(storeName, 'readwrite', (store) => store.put(record));
+  } catch (error) {
+    console.error('Failed to write offline cache:', error);
+  }
+};
+
+const readRecord = async <T>(storeName: StoreName, id: string): Promise<T | null> => {
+  try {
+    const record = await runRequest<CachedRecord<T> | undefined>(storeName, 'readonly', (store) => store.get(id));
+    return record?.data ?? null;
+  } catch (error) {
+    console.error('Failed to read offline cache:', error);
+    return null;
+  }
+};
+
+export const cacheTale = (tale: TaleResponse): Promise<void> =>
+  writeRecord(TALE_STORE, tale.id, tale);
+
+export const getCachedTale = (id: string): Promise<TaleResponse | null> =>
+  readRecord<TaleResponse>(TALE_STORE, id);
+
+// Story maps are keyed by the tale they were requested for
+export const cacheStoryMap = (taleId: string, map: StoryMapResponse): Promise<void> =>
+  writeRecord(MAP_STORE, taleId, map);
+
+export const getCachedStoryMap = (taleId: string): Promise<StoryMapResponse | null> =>
+  readRecord<StoryMapResponse>(MAP_STORE, taleId);
+
+// Cached tales carry the reader's own vote state, so nothing outlives their session
+export const clearOfflineCache = async (): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([TALE_STORE, MAP_STORE], 'readwrite');
+      transaction.objectStore(TALE_STORE).clear();
+      transaction.objectStore(MAP_STORE).clear();
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('Failed to clear offline cache:', error);
+  }
+};
@@ -0,0 +1,125 @@
+import type { Notification } from '../services/api';
+import type { NewChildTale } from './taleCache';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+/**
+ * Supabase Realtime broadcast channels the API publishes to:
+ *
+ * - `user:<userId>` (private) - `notification_created` with the new Notification
+ * - `story:<rootTaleId>` - `tale_created` when a branch is written anywhere in
+ *   the story, and `votes_changed` with a tale's new total
+ *
+ * Subscribers to the same topic share one channel, and health is tracked
+ * per topic so views can fall back to polling while theirs is down.
+ */
+
+export interface VotesChangedPayload {
+  taleId: string;
+  votes: number;
+}
+
+export interface RealtimeEventPayloads {
+  notification_created: Notification;
+  tale_created: NewChildTale;
+  votes_changed: VotesChangedPayload;
+}
+
+export type RealtimeEvent = keyof RealtimeEventPayloads;
+
+export type RealtimeHandlers = {
+  [Event in RealtimeEvent]?: (payload: RealtimeEventPayloads[Event]) => void;
+};
+
+export const getUserTopic = (userId: string) => `user:${userId}`;
+export const getStoryTopic = (rootTaleId: string) => `story:${rootTaleId}`;
+
+type TopicListener = (event: string, payload: unknown) => void;
+
+// One Supabase channel per topic, shared by every subscriber to it
+interface TopicSubscription {
+  channel: RealtimeChannel;
+  listeners: Set<TopicListener>;
+}
+
+const activeTopics = new Map<string, TopicSubscription>();
+// supabase.channel() hands back a channel that is still leaving, and
+// subscribing to that does nothing, so rejoining waits for the leave to finish
+const leavingTopics = new Map<string, Promise<unknown>>();
+
+// Connection status store, keyed by topic and read through useSyncExternalStore
+const connectedTopics = new Set<string>();
+const statusListeners = new Set<() => void>();
+
+export const isTopicConnected = (topic: string): boolean => connectedTopics.has(topic);
+
+export const subscribeToTopicStatus = (listener: () => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+const setTopicConnected = (topic: string, isConnected: boolean) => {
+  if (isConnected === connectedTopics.has(topic)) return;
+  if (isConnected) {
+    connectedTopics.add(topic);
+  } else {
+    connectedTopics.delete(topic);
+  }
+  statusListeners.forEach((listener) => listener());
+};
+
+const joinTopic = (topic: string, isPrivate: boolean): TopicSubscription => {
+  const existing = activeTopics.get(topic);
+  if (existing) return existing;
+
+  const listeners = new Set<TopicListener>();
+  const channel = supabase
+    .channel(topic, { config: { private: isPrivate } })
+    .on('broadcast', { event: '*' }, ({ event, payload }) => listeners.forEach((listener) => listener(event, payload)));
+  const subscription = { channel, listeners };
+  activeTopics.set(topic, subscription);
+
+  channel.subscribe((status, error) => {
+    // A late status from a channel already replaced for this topic says nothing about the new one
+    if (activeTopics.get(topic) !== subscription) return;
+    if (error) console.error(`Realtime channel ${topic} failed:`, error);
+    // TIMED_OUT, CHANNEL_ERROR and CLOSED all mean updates aren't arriving
+    setTopicConnected(topic, status === 'SUBSCRIBED');
+  });
+  return subscription;
+};
+
+const leaveTopic = (topic: string, subscription: TopicSubscription) => {
+  activeTopics.delete(topic);
+  setTopicConnected(topic, false);
+  const removal = supabase.removeChannel(subscription.channel).finally(() => {
+    if (leavingTopics.get(topic) === removal) leavingTopics.delete(topic);
+  });
+  leavingTopics.set(topic, removal);
+};
+
+// Joins a broadcast topic and hands every event to `onEvent`. Returns the cleanup.
+export const subscribeToTopic = (topic: string, onEvent: TopicListener, isPrivate = false): (() => void) => {
+  // Wrapped so the same callback can subscribe twice and leave independently
+  const listener: TopicListener = (event, payload) => onEvent(event, payload);
+  let isSubscribed = true;
+
+  const join = () => {
+    if (isSubscribed) joinTopic(topic, isPrivate).listeners.add(listener);
+  };
+  const leaving = leavingTopics.get(topic);
+  if (leaving) {
+    leaving.then(join);
+  } else {
+    join();
+  }
+
+  return () => {
+    isSubscribed = false;
+    const subscription = activeTopics.get(topic);
+    if (!subscription?.listeners.delete(listener)) return;
+    if (subscription.listeners.size === 0) leaveTopic(topic, subscription);
+  };
+};
@@ -0,0 +1,175 @@
+/**
+ * Parser for the small formatting subset allowed in chapter content:
+ *
+ *   **bold**   *italic* or _italic_   ***bold italic***   > blockquote   *** (scene break)
+ *
+ * Content is parsed into a plain tree that components render as React
+ * elements, so no author-supplied HTML ever reaches the DOM. A backslash
+ * escapes a marker character (e.g. `\*`).
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic'; children: InlineNode[] };
+
+export type RichTextBlock =
+  | { type: 'paragraph' | 'blockquote'; children: InlineNode[] }
+  | { type: 'sceneBreak' };
+
+const SCENE_BREAK_PATTERN = /^(?:\*\s*){3,}$/;
+const BLOCKQUOTE_PATTERN = /^>\s?/;
+const ESCAPABLE = '\\*_>';
+
+const isWhitespace = (char: string | undefined) => !char || /\s/.test(char);
+const isWordChar = (char: string | undefined) => !!char && /\w/.test(char);
+
+// Index of the marker closing an italic run that starts at `from`, or -1
+const findItalicEnd = (text: string, marker: string, from: number): number => {
+  for (let j = from; j < text.length; j++) {
+    if (text[j] === '\\') {
+      j++;
+      continue;
+    }
+    if (text[j] !== marker) continue;
+    // A `**` inside an italic run belongs to a nested bold span
+    if (marker === '*' && text[j + 1] === '*') {
+      j++;
+      continue;
+    }
+    if (isWhitespace(text[j - 1])) continue;
+    if (marker === '_' && isWordChar(text[j + 1])) continue;
+    return j;
+  }
+  return -1;
+};
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && ESCAPABLE.includes(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    // ***both*** is bold wrapping italic; matched first so ** doesn't claim a lone *
+    if (text.startsWith('***', i) && !isWhitespace(text[i + 3])) {
+      const end = text.indexOf('***', i + 3);
+      if (end > i + 3 && !isWhitespace(text[end - 1])) {
+        flush();
+        nodes.push({
+          type: 'bold',
+          children: [{ type: 'italic', children: parseInline(text.slice(i + 3, end)) }],
+        });
+        i = end + 3;
+        continue;
+      }
+    }
+
+    if (char === '*' && text[i + 1] === '*' && !isWhitespace(text[i + 2])) {
+      const end = text.indexOf('**', i + 2);
+      if (end > i + 2 && !isWhitespace(text[end - 1])) {
+        flush();
+        nodes.push({ type: 'bold', children: parseInline(text.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if ((char === '*' || char === '_') && !isWhitespace(text[i + 1]) && !(char === '_' && isWordChar(text[i - 1]))) {
+      const end = findItalicEnd(text, char, i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'italic', children: parseInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+export const parseRichText = (content: string): RichTextBlock[] => {
+  const blocks: RichTextBlock[] = [];
+  let lines: string[] = [];
+  let currentType: 'paragraph' | 'blockquote' = 'paragraph';
+
+  const flush = () => {
+    const text = lines.join('\n').trim();
+    if (text) {
+      blocks.push({ type: currentType, children: parseInline(text) });
+    }
+    lines = [];
+  };
+
+  content.split('\n').forEach((rawLine) => {
+    const line = rawLine.trim();
+
+    if (!line) {
+      flush();
+      return;
+    }
+
+    if (SCENE_BREAK_PATTERN.test(line)) {
+      flush();
+      blocks.push({ type: 'sceneBreak' });
+      return;
+    }
+
+    const lineType = BLOCKQUOTE_PATTERN.test(line) ? 'blockquote' : 'paragraph';
+    if (lineType !== currentType) {
+      flush();
+      currentType = lineType;
+    }
+    lines.push(lineType === 'blockquote' ? line.replace(BLOCKQUOTE_PATTERN, '') : line);
+  });
+
+  flush();
+  return blocks;
+};
+
+// Separates the first visible character (for drop caps) from the rest of the nodes
+export const splitFirstLetter = (
+  nodes: InlineNode[]
+): { letter: string; rest: InlineNode[] } | null => {
+  const [first, ...others] = nodes;
+  if (!first) return null;
+
+  if (first.type === 'text') {
+    if (!first.text) return splitFirstLetter(others);
+    return {
+      letter: first.text.charAt(0),
+      rest: [{ type: 'text', text: first.text.slice(1) }, ...others],
+    };
+  }
+
+  const inner = splitFirstLetter(first.children);
+  if (!inner) return splitFirstLetter(others);
+  return { letter: inner.letter, rest: [{ ...first, children: inner.rest }, ...others] };
+};
+
+const inlineToPlainText = (nodes: InlineNode[]): string =>
+  nodes.map((node) => (node.type === 'text' ? node.text : inlineToPlainText(node.children))).join('');
+
+// Content with all formatting markers removed, e.g. for exports and metadata
+export const toPlainText = (content: string): string =>
+  parseRichText(content)
+    .map((block) => (block.type === 'sceneBreak' ? '* * *' : inlineToPlainText(block.children)))
+    .join('\n\n');
@@ -0,0 +1,272 @@
+import type { TaleResponse } from '../services/api';
+import { parseRichText, toPlainText, type InlineNode } from './richText';
+import { createZip } from './zip';
+
+/**
+ * Client-side export of a sequence of chapters (a branch or the canon) into
+ * downloadable files. Every format starts with a table of contents and
+ * credits each chapter to its author.
+ */
+
+export type ExportChapter = Pick<TaleResponse, 'id' | 'title' | 'authorName' | 'content'>;
+
+export type StoryExportFormat = 'epub' | 'markdown' | 'txt';
+
+// Which chapters to export: the branch through the current chapter, or the canon
+export type StoryExportSource = 'current' | 'golden';
+
+const chapterTitle = (chapter: ExportChapter) => chapter.title || 'Untitled';
+const chapterAuthor = (chapter: ExportChapter) => chapter.authorName || 'Anonymous';
+
+// Filesystem-friendly slug for download names
+export const toFileName = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'votales-story';
+
+export const downloadFile = (fileName: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// One continuous plain-text document, chapters separated by their titles
+export const buildPlainTextStory = (storyTitle: string, chapters: ExportChapter[]): string => {
+  const contents = chapters.map(
+    (chapter, index) => `  ${index + 1}. ${chapterTitle(chapter)} (${chapterAuthor(chapter)})`
+  );
+
+  const sections = chapters.map((chapter, index) => {
+    const heading = `Chapter ${index + 1}: ${chapterTitle(chapter)}`;
+    return [
+      heading,
+      '-'.repeat(heading.length),
+      `by ${chapterAuthor(chapter)}`,
+      '',
+      toPlainText(chapter.content),
+    ].join('\n');
+  });
+
+  return [
+    storyTitle,
+    '='.repeat(storyTitle.length),
+    '',
+    'Contents',
+    ...contents,
+    '',
+    '',
+    sections.join('\n\n\n'),
+    '',
+  ].join('\n');
+};
+
+// Titles are plain text, so any formatting markers in them must not render
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]#])/g, '\\$1');
+
+// Chapter content is already written in the markdown-lite subset, so it is kept as-is
+export const buildMarkdownStory = (storyTitle: string, chapters: ExportChapter[]): string => {
+  const contents = chapters.map(
+    (chapter, index) =>
+      `${index + 1}. [${escapeMarkdown(chapterTitle(chapter))}](#chapter-${index + 1}) — ${escapeMarkdown(chapterAuthor(chapter))}`
+  );
+
+  const sections = chapters.map((chapter, index) =>
+    [
+      `<a id="chapter-${index + 1}"></a>`,
+      '',
+      `## Chapter ${index + 1}: ${escapeMarkdown(chapterTitle(chapter))}`,
+      '',
+      `*by ${escapeMarkdown(chapterAuthor(chapter))}*`,
+      '',
+      chapter.content.trim(),
+    ].join('\n')
+  );
+
+  return [
+    `# ${escapeMarkdown(storyTitle)}`,
+    '',
+    '## Contents',
+    '',
+    ...contents,
+    '',
+    sections.join('\n\n---\n\n'),
+    '',
+  ].join('\n');
+};
+
+// ============================================
+// EPUB
+// ============================================
+
+export const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const inlineToXhtml = (nodes: InlineNode[]): string =>
+  nodes
+    .map((node) => {
+      if (node.type === 'text') return escapeXml(node.text).replace(/\n/g, '<br />');
+      const tag = node.type === 'bold' ? 'strong' : 'em';
+      return `<${tag}>${inlineToXhtml(node.children)}</${tag}>`;
+    })
+    .join('');
+
+const contentToXhtml = (content: string): string =>
+  parseRichText(content)
+    .map((block) => {
+      if (block.type === 'sceneBreak') return '<p class="scene-break">* * *</p>';
+      const paragraph = `<p>${inlineToXhtml(block.children)}</p>`;
+      return block.type === 'blockquote' ? `<blockquote>${paragraph}</blockquote>` : paragraph;
+    })
+    .join('\n');
+
+const xhtmlDocument = (title: string, body: string, extraNamespace = '') => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml"${extraNamespace} xml:lang="en" lang="en">
+<head>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const EPUB_CONTAINER = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>
+`;
+
+const EPUB_STYLESHEET = `body { font-family: serif; line-height: 1.6; margin: 1em; }
+h1, h2 { text-align: center; }
+.author { text-align: center; font-style: italic; color: #555; margin-bottom: 2em; }
+blockquote { margin: 1em 2em; font-style: italic; }
+.scene-break { text-align: center; letter-spacing: 0.5em; margin: 2em 0; }
+nav ol { list-style: none; padding: 0; }
+nav li { margin: 0.5em 0; }
+`;
+
+// Packages the chapters as an EPUB 3 book (with an NCX for older readers)
+export const buildEpubStory = (storyTitle: string, chapters: ExportChapter[]): Uint8Array<ArrayBuffer> => {
+  const bookId = `urn:votales:${chapters.map((chapter) => chapter.id).join(':')}`;
+  // dcterms:modified must be in CCYY-MM-DDThh:mm:ssZ form
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const authors = [...new Set(chapters.map(chapterAuthor))];
+  const chapterFile = (index: number) => `chapter-${index + 1}.xhtml`;
+
+  const chapterDocuments = chapters.map((chapter, index) =>
+    xhtmlDocument(
+      chapterTitle(chapter),
+      [
+        `<h2>Chapter ${index + 1}: ${escapeXml(chapterTitle(chapter))}</h2>`,
+        `<p class="author">by ${escapeXml(chapterAuthor(chapter))}</p>`,
+        contentToXhtml(chapter.content),
+      ].join('\n')
+    )
+  );
+
+  const tocItems = chapters
+    .map(
+      (chapter, index) =>
+        `    <li><a href="${chapterFile(index)}">Chapter ${index + 1}: ${escapeXml(chapterTitle(chapter))}</a> — ${escapeXml(chapterAuthor(chapter))}</li>`
+    )
+    .join('\n');
+
+  const nav = xhtmlDocument(
+    'Contents',
+    [
+      `<h1>${escapeXml(storyTitle)}</h1>`,
+      '<nav epub:type="toc" id="toc">',
+      '  <h2>Contents</h2>',
+      '  <ol>',
+      tocItems,
+      '  </ol>',
+      '</nav>',
+    ].join('\n'),
+    ' xmlns:epub="http://www.idpf.org/2007/ops"'
+  );
+
+  const ncx = `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="${escapeXml(bookId)}" />
+  </head>
+  <docTitle><text>${escapeXml(storyTitle)}</text></docTitle>
+  <navMap>
+${chapters
+  .map(
+    (chapter, index) => `    <navPoint id="nav-${index + 1}" playOrder="${index + 1}">
+      <navLabel><text>Chapter ${index + 1}: ${escapeXml(chapterTitle(chapter))}</text></navLabel>
+      <content src="${chapterFile(index)}" />
+    </navPoint>`
+  )
+  .join('\n')}
+  </navMap>
+</ncx>
+`;
+
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeXml(bookId)}</dc:identifier>
+    <dc:title>${escapeXml(storyTitle)}</dc:title>
+    <dc:language>en</dc:language>
+    <dc:publisher>VoTales</dc:publisher>
+${authors.map((author) => `    <dc:creator>${escapeXml(author)}</dc:creator>`).join('\n')}
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml" />
+    <item id="style" href="style.css" media-type="text/css" />
+${chapters.map((_, index) => `    <item id="chapter-${index + 1}" href="${chapterFile(index)}" media-type="application/xhtml+xml" />`).join('\n')}
+  </manifest>
+  <spine toc="ncx">
+    <itemref idref="nav" />
+${chapters.map((_, index) => `    <itemref idref="chapter-${index + 1}" />`).join('\n')}
+  </spine>
+</package>
+`;
+
+  // The mimetype entry must come first and stay uncompressed
+  return createZip([
+    { path: 'mimetype', content: 'application/epub+zip' },
+    { path: 'META-INF/container.xml', content: EPUB_CONTAINER },
+    { path: 'OEBPS/content.opf', content: opf },
+    { path: 'OEBPS/toc.ncx', content: ncx },
+    { path: 'OEBPS/nav.xhtml', content: nav },
+    { path: 'OEBPS/style.css', content: EPUB_STYLESHEET },
+    ...chapterDocuments.map((content, index) => ({ path: `OEBPS/${chapterFile(index)}`, content })),
+  ]);
+};
+
+// Builds the requested format and hands it to the browser as a download
+export const downloadStory = (storyTitle: string, chapters: ExportChapter[], format: StoryExportFormat, fileSuffix = '') => {
+  const baseName = `${toFileName(storyTitle)}${fileSuffix}`;
+  switch (format) {
+    case 'epub':
+      downloadFile(`${baseName}.epub`, buildEpubStory(storyTitle, chapters), 'application/epub+zip');
+      break;
+    case 'markdown':
+      downloadFile(`${baseName}.md`, buildMarkdownStory(storyTitle, chapters), 'text/markdown;charset=utf-8');
+      break;
+    case 'txt':
+      downloadFile(`${baseName}.txt`, buildPlainTextStory(storyTitle, chapters), 'text/plain;charset=utf-8');
+      break;
+  }
+};
@@ -0,0 +1,180 @@
+import type { StoryMapEdge, StoryMapResponse } from '../services/api';
+
+/**
+ * Returns the chain of tale ids from the root of the story down to `taleId`
+ * (inclusive), derived from the story map edges. If the tale has no parent
+ * edge the path is just `[taleId]`.
+ */
+export const getPathToTale = (edges: StoryMapEdge[], taleId: string): string[] => {
+  const parentById = new Map<string, string>();
+  edges.forEach((edge) => {
+    parentById.set(edge.targetId, edge.sourceId);
+  });
+
+  const path = [taleId];
+  const visited = new Set(path);
+  let parentId = parentById.get(taleId);
+
+  // Walk up until the root; the visited check guards against malformed cyclic maps
+  while (parentId && !visited.has(parentId)) {
+    path.push(parentId);
+    visited.add(parentId);
+    parentId = parentById.get(parentId);
+  }
+
+  return path.reverse();
+};
+
+// Process edges to find the "Golden Path" (most voted edges from each node)
+// Handles ties: ALL edges with maxVotes become winners
+// Handles zero votes: If maxVotes === 0, no edges are winners
+// Returns a map of `${sourceId}-${targetId}` -> targetId for every winning edge
+export const processGoldenPath = (
+  edges: StoryMapEdge[]
+): Map<string, string> => {
+  // Group edges by source
+  const edgesBySource = new Map<string, StoryMapEdge[]>();
+  
+  edges.forEach((edge) => {
+    const group = edgesBySource.get(edge.sourceId) || [];
+    group.push(edge);
+    edgesBySource.set(edge.sourceId, group);
+  });
+
+  // Find winner(s) for each source - supports ties
+  const winners = new Map<string, string>();
+  
+  edgesBySource.forEach((sourceEdges: StoryMapEdge[], sourceId: string) => {
+    // Rule 1: Calculate maxVotes for this group
+    const maxVotes = Math.max(...sourceEdges.map((e: StoryMapEdge) => e.votes));
+    
+    // Rule 1 (Zero Vote Check): If maxVotes === 0, no edges are winners
+    if (maxVotes === 0) {
+      return; // Skip this group - no winners
+    }
+    
+    // Rule 2 (Tie Check): Mark ALL edges with maxVotes as winners
+    sourceEdges.forEach((edge: StoryMapEdge) => {
+      if (edge.votes === maxVotes) {
+        winners.set(`${sourceId}-${edge.targetId}`, edge.targetId);
+      }
+    });
+  });
+
+  return winners;
+};
+
+// Every node touched by a winning edge (both ends)
+export const getGoldenPathNodeIds = (edges: StoryMapEdge[]): Set<string> => {
+  const goldenPath = processGoldenPath(edges);
+  const nodeIds = new Set<string>();
+  edges.forEach((edge) => {
+    if (goldenPath.has(`${edge.sourceId}-${edge.targetId}`)) {
+      nodeIds.add(edge.sourceId);
+      nodeIds.add(edge.targetId);
+    }
+  });
+  return nodeIds;
+};
+
+/**
+ * The canon continuation from `startId`: follows the winning edge at each
+ * chapter until a chapter has no voted children. Ties resolve to the first
+ * winning edge in map order so the path is deterministic.
+ */
+export const getCanonPath = (edges: StoryMapEdge[], startId: string): string[] => {
+  const goldenPath = processGoldenPath(edges);
+  const winnerBySource = new Map<string, string>();
+  edges.forEach((edge) => {
+    if (goldenPath.has(`${edge.sourceId}-${edge.targetId}`) && !winnerBySource.has(edge.sourceId)) {
+      winnerBySource.set(edge.sourceId, edge.targetId);
+    }
+  });
+
+  const path = [startId];
+  const visited = new Set(path);
+  let nextId = winnerBySource.get(startId);
+
+  while (nextId && !visited.has(nextId)) {
+    path.push(nextId);
+    visited.add(nextId);
+    nextId = winnerBySource.get(nextId);
+  }
+
+  return path;
+};
+
+/**
+ * A full root-to-leaf branch through `taleId`: the ancestors of the tale,
+ * then down through its descendants to a leaf. Below the tale the
+ * most-voted child is taken at each step, falling back to the first child
+ * in map order when there is no vote winner.
+ */
+export const getBranchPath = (edges: StoryMapEdge[], taleId: string): string[] => {
+  const childrenBySource = new Map<string, StoryMapEdge[]>();
+  edges.forEach((edge) => {
+    const group = childrenBySource.get(edge.sourceId) || [];
+    group.push(edge);
+    childrenBySource.set(edge.sourceId, group);
+  });
+
+  const path = getPathToTale(edges, taleId);
+  const visited = new Set(path);
+  let children = childrenBySource.get(taleId);
+
+  while (children && children.length > 0) {
+    const next = children.reduce((best, edge) => (edge.votes > best.votes ? edge : best));
+    if (visited.has(next.targetId)) break;
+    path.push(next.targetId);
+    visited.add(next.targetId);
+    children = childrenBySource.get(next.targetId);
+  }
+
+  return path;
+};
+
+// Every tale below `taleId` in the map (not including the tale itself)
+export const getDescendantIds = (edges: StoryMapEdge[], taleId: string): Set<string> => {
+  const childrenBySource = new Map<string, string[]>();
+  edges.forEach((edge) => {
+    const children = childrenBySource.get(edge.sourceId) || [];
+    children.push(edge.targetId);
+    childrenBySource.set(edge.sourceId, children);
+  });
+
+  const descendants = new Set<string>();
+  const stack = [...(childrenBySource.get(taleId) ?? [])];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (descendants.has(id) || id === taleId) continue;
+    descendants.add(id);
+    stack.push(...(childrenBySource.get(id) ?? []));
+  }
+  return descendants;
+};
+
+// Children that exist but aren't loaded in a (depth-limited) map, per node
+export const getHiddenChildCounts = (map: StoryMapResponse): Map<string, number> => {
+  const loadedChildren = new Map<string, number>();
+  map.edges.forEach((edge) => {
+    loadedChildren.set(edge.sourceId, (loadedChildren.get(edge.sourceId) ?? 0) + 1);
+  });
+
+  const hidden = new Map<string, number>();
+  map.nodes.forEach((node) => {
+    const count = (node.childCount ?? 0) - (loadedChildren.get(node.id) ?? 0);
+    if (count > 0) hidden.set(node.id, count);
+  });
+  return hidden;
+};
+
+// Adds a freshly loaded map window to an existing map; newer node data wins
+export const mergeStoryMaps = (map: StoryMapResponse, addition: StoryMapResponse): StoryMapResponse => {
+  const nodes = new Map(map.nodes.map((node) => [node.id, node]));
+  addition.nodes.forEach((node) => nodes.set(node.id, node));
+
+  const edges = new Map(map.edges.map((edge) => [`${edge.sourceId}-${edge.targetId}`, edge]));
+  addition.edges.forEach((edge) => edges.set(`${edge.sourceId}-${edge.targetId}`, edge));
+
+  return { nodes: [...nodes.values()], edges: [...edges.values()] };
+};
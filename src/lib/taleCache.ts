@@ -0,0 +1,177 @@
+import type { InfiniteData, Query, QueryClient, QueryFilters } from '@tanstack/react-query';
+import type {
+  PaginatedChoicesResponse,
+  StoryMapNode,
+  StoryMapResponse,
+  TaleChoice,
+  TaleResponse,
+} from '../services/api';
+
+/**
+ * Patches for tale data held in the React Query cache: ['tale', id],
+ * ['taleChoices', parentId, { sort, followedOnly }] and ['storyMap', ...].
+ * Shared by optimistic voting and by realtime updates pushed from the
+ * server, so both keep every view of a tale in step.
+ */
+
+// New vote state for a tale: its count, and the reader's own vote when it changes
+export interface VoteUpdate {
+  votes: (current: number) => number;
+  hasVoted?: boolean;
+}
+
+// Cached tales that show the tale: the tale itself or a parent listing it as a choice
+export const taleFilters = (taleId: string): QueryFilters => ({
+  queryKey: ['tale'],
+  predicate: (query: Query) => {
+    const tale = query.state.data as TaleResponse | undefined;
+    return !!tale && (tale.id === taleId || !!tale.choices?.some((choice) => choice.id === taleId));
+  },
+});
+
+// Paged choice lists (['taleChoices', parentId, { sort, followedOnly }]) containing the tale
+export const choiceListFilters = (taleId: string): QueryFilters => ({
+  queryKey: ['taleChoices'],
+  predicate: (query: Query) => {
+    const list = query.state.data as InfiniteData<PaginatedChoicesResponse> | undefined;
+    return !!list?.pages.some((page) => page.items.some((choice) => choice.id === taleId));
+  },
+});
+
+export const storyMapFilters = (taleId: string): QueryFilters => ({
+  queryKey: ['storyMap'],
+  predicate: (query: Query) => {
+    const map = query.state.data as StoryMapResponse | null | undefined;
+    return !!map?.nodes.some((node) => node.id === taleId);
+  },
+});
+
+const patchChoice = (choice: TaleChoice, taleId: string, update: VoteUpdate): TaleChoice =>
+  choice.id === taleId
+    ? {
+        ...choice,
+        votes: Math.max(0, update.votes(choice.votes)),
+        ...(update.hasVoted !== undefined && { hasVoted: update.hasVoted }),
+      }
+    : choice;
+
+const byVotes = (a: TaleChoice, b: TaleChoice) => b.votes - a.votes;
+
+// Applies a vote change to the tale itself and to it wherever it appears as a choice
+export const patchTaleVotes = (tale: TaleResponse, taleId: string, update: VoteUpdate): TaleResponse => {
+  const isVotedTale = tale.id === taleId;
+  const hasChoice = tale.choices?.some((choice) => choice.id === taleId);
+
+  return {
+    ...tale,
+    ...(isVotedTale && {
+      votes: Math.max(0, update.votes(tale.votes)),
+      ...(update.hasVoted !== undefined && { hasVoted: update.hasVoted }),
+    }),
+    // Re-rank the parent's choices in place so the list reorders without a refetch
+    choices: hasChoice
+      ? tale.choices.map((choice) => patchChoice(choice, taleId, update)).sort(byVotes)
+      : tale.choices,
+  };
+};
+
+// Lists sorted by votes are re-ranked across the loaded pages; other orders are kept
+export const patchChoiceListVotes = (
+  list: InfiniteData<PaginatedChoicesResponse>,
+  taleId: string,
+  update: VoteUpdate,
+  isSortedByVotes: boolean
+): InfiniteData<PaginatedChoicesResponse> => {
+  const pages = list.pages.map((page) => ({
+    ...page,
+    items: page.items.map((choice) => patchChoice(choice, taleId, update)),
+  }));
+  if (!isSortedByVotes) return { ...list, pages };
+
+  const ranked = pages.flatMap((page) => page.items).sort(byVotes);
+  let offset = 0;
+  return {
+    ...list,
+    pages: pages.map((page) => {
+      const items = ranked.slice(offset, offset + page.items.length);
+      offset += page.items.length;
+      return { ...page, items };
+    }),
+  };
+};
+
+// Edge votes drive the golden path, so they move together with the tale
+export const patchStoryMapVotes = (map: StoryMapResponse, taleId: string, update: VoteUpdate): StoryMapResponse => ({
+  ...map,
+  nodes: map.nodes.map((node) =>
+    node.id === taleId && node.votes !== undefined ? { ...node, votes: Math.max(0, update.votes(node.votes)) } : node
+  ),
+  edges: map.edges.map((edge) =>
+    edge.targetId === taleId ? { ...edge, votes: Math.max(0, update.votes(edge.votes)) } : edge
+  ),
+});
+
+// Writes a vote change into every cached view of the tale
+export const applyVoteUpdate = (queryClient: QueryClient, taleId: string, update: VoteUpdate) => {
+  queryClient.setQueriesData<TaleResponse>(taleFilters(taleId), (tale) =>
+    tale ? patchTaleVotes(tale, taleId, update) : tale
+  );
+  queryClient
+    .getQueryCache()
+    .findAll(choiceListFilters(taleId))
+    .forEach((query) => {
+      const { sort } = (query.queryKey[2] ?? {}) as { sort?: string };
+      queryClient.setQueryData<InfiniteData<PaginatedChoicesResponse>>(query.queryKey, (list) =>
+        list ? patchChoiceListVotes(list, taleId, update, sort === 'votes') : list
+      );
+    });
+  queryClient.setQueriesData<StoryMapResponse | null>(storyMapFilters(taleId), (map) =>
+    map ? patchStoryMapVotes(map, taleId, update) : map
+  );
+};
+
+export interface NewChildTale {
+  parentId: string;
+  choice: TaleChoice;
+  authorName?: string | null;
+  createdAt?: string;
+}
+
+// Adds a freshly written branch under its parent: the parent's choices and every map containing it
+export const addChildTale = (queryClient: QueryClient, { parentId, choice, authorName, createdAt }: NewChildTale) => {
+  queryClient.setQueryData<TaleResponse>(['tale', parentId], (tale) =>
+    tale && !tale.choices.some((existing) => existing.id === choice.id)
+      ? { ...tale, choices: [...tale.choices, choice].sort(byVotes), totalChoices: tale.totalChoices + 1 }
+      : tale
+  );
+  queryClient.setQueriesData<StoryMapResponse | null>(storyMapFilters(parentId), (map) => {
+    if (!map || map.nodes.some((node) => node.id === choice.id)) return map;
+    const node: StoryMapNode = {
+      id: choice.id,
+      label: choice.title || 'Untitled',
+      type: 'LEAF',
+      isDeleted: false,
+      childCount: 0,
+      authorName,
+      votes: choice.votes,
+      createdAt,
+    };
+    return {
+      nodes: [
+        ...map.nodes.map((parent) =>
+          parent.id === parentId
+            ? {
+                ...parent,
+                type: parent.type === 'LEAF' ? ('BRANCH' as const) : parent.type,
+                childCount: parent.childCount === undefined ? undefined : parent.childCount + 1,
+              }
+            : parent
+        ),
+        node,
+      ],
+      edges: [...map.edges, { sourceId: parentId, targetId: choice.id, votes: choice.votes }],
+    };
+  });
+  // Paged lists depend on the server's sort and filters, so let them refetch
+  queryClient.invalidateQueries({ queryKey: ['taleChoices', parentId] });
+};
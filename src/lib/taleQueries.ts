@@ -0,0 +1,32 @@
+import { queryOptions } from '@tanstack/react-query';
+import { fetchTale, type TaleResponse } from '../services/api';
+import { NetworkError, toApiError } from '../services/apiErrors';
+import { getCachedTale } from './offlineCache';
+
+// Whether the tale came from the offline cache travels with it, so cache patches
+// (which spread the tale) keep it and the next network result replaces it
+export type TaleQueryData = TaleResponse & { fromOfflineCache: boolean };
+
+/**
+ * The one definition of the ['tale', id] query. Every view reading a tale
+ * goes through it, so the cache holds the same thing whichever mounts first.
+ */
+export const taleQueryOptions = (taleId: string) =>
+  queryOptions({
+    queryKey: ['tale', taleId],
+    queryFn: async (): Promise<TaleQueryData> => {
+      try {
+        return { ...(await fetchTale(taleId)), fromOfflineCache: false };
+      } catch (error) {
+        // Serve the persisted copy only when the API can't be reached;
+        // a 404 or 403 must not show a stale chapter
+        if (!(toApiError(error) instanceof NetworkError)) throw error;
+        const cachedTale = await getCachedTale(taleId);
+        if (!cachedTale) throw error;
+        return { ...cachedTale, fromOfflineCache: true };
+      }
+    },
+    enabled: !!taleId,
+    // Run the query even when the browser reports offline so the cache fallback kicks in
+    networkMode: 'always',
+  });
@@ -0,0 +1,119 @@
+import {
+  getPushPublicKey,
+  registerPushSubscription,
+  unregisterPushSubscription,
+  type PushSubscriptionRequest,
+} from '../services/api';
+
+/**
+ * Browser push for notifications that should reach the reader with the tab
+ * closed. public/push-sw.js shows them and posts a `notification-click`
+ * message back to an open tab so the app can route to the tale.
+ */
+
+const SERVICE_WORKER_URL = '/push-sw.js';
+const PROMPT_DISMISSED_KEY = 'votales:push-prompt-dismissed';
+
+export interface NotificationClickMessage {
+  type: 'notification-click';
+  notificationId?: string;
+  url: string;
+}
+
+export const isPushSupported = (): boolean =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+export const getPushPermission = (): NotificationPermission =>
+  isPushSupported() ? Notification.permission : 'denied';
+
+// VAPID keys arrive base64url-encoded; PushManager wants the raw bytes
+const decodeBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const toSubscriptionRequest = (subscription: PushSubscription): PushSubscriptionRequest => {
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys.auth) {
+    throw new Error('Push subscription is missing its endpoint or keys');
+  }
+  return { endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } };
+};
+
+const getRegistration = () => navigator.serviceWorker.register(SERVICE_WORKER_URL);
+
+// The browser's existing subscription, without registering a worker or prompting
+export const getPushSubscription = async (): Promise<PushSubscription | null> => {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return (await registration?.pushManager.getSubscription()) ?? null;
+};
+
+// Asks for permission if needed, subscribes this browser and registers it with the API
+export const subscribeToPush = async (): Promise<PushSubscription> => {
+  if (!isPushSupported()) throw new Error('Push notifications are not supported in this browser');
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') throw new Error('Notification permission was not granted');
+
+  const registration = await getRegistration();
+  const existing = await registration.pushManager.getSubscription();
+  const subscription =
+    existing ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeBase64Url(await getPushPublicKey()),
+    }));
+
+  await registerPushSubscription(toSubscriptionRequest(subscription));
+  return subscription;
+};
+
+export const unsubscribeFromPush = async (): Promise<void> => {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+  await unregisterPushSubscription(subscription.endpoint);
+  await subscription.unsubscribe();
+};
+
+// Local only: stops this browser receiving pushes without needing a session
+export const dropPushSubscription = async (): Promise<void> => {
+  try {
+    await (await getPushSubscription())?.unsubscribe();
+  } catch (error) {
+    console.error('Failed to drop push subscription:', error);
+  }
+};
+
+// The subscription belongs to the browser but is registered to the account, so
+// call before signing out; the next account to sign in here opts in for itself
+export const releasePushSubscription = async (): Promise<void> => {
+  try {
+    await unsubscribeFromPush();
+  } catch (error) {
+    console.error('Failed to unregister push subscription:', error);
+    await dropPushSubscription();
+  }
+};
+
+export const isPushPromptDismissed = (): boolean => {
+  try {
+    return localStorage.getItem(PROMPT_DISMISSED_KEY) === '1';
+  } catch {
+    return false;
+  }
+};
+
+export const dismissPushPrompt = (): void => {
+  try {
+    localStorage.setItem(PROMPT_DISMISSED_KEY, '1');
+  } catch (error) {
+    console.error('Failed to save push prompt dismissal:', error);
+  }
+};
+
+export const isNotificationClickMessage = (data: unknown): data is NotificationClickMessage =>
+  typeof data === 'object' && data !== null && (data as { type?: unknown }).type === 'notification-click';
@@ -1,5 +1,8 @@
-import axios from 'axios';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
 import { supabase } from '../lib/supabase';
+import { cacheTale, cacheStoryMap } from '../lib/offlineCache';
+import { getPathToTale } from '../lib/storyPath';
+import { ConflictError, toApiError } from './apiErrors';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://localhost:32769';
 
@@ -26,11 +29,72 @@ api.interceptors.request.use(
   }
 );
 
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+}
+
+// Shared in-flight refresh so concurrent 401s trigger a single token refresh
+let refreshPromise: Promise<string | null> | null = null;
+
+const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = supabase.auth
+      .refreshSession()
+      .then(({ data, error }) => (error ? null : data.session?.access_token ?? null))
+      .catch(() => null)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+// Drop the dead session and send the reader to log in, coming back to where they were
+const redirectToLogin = async () => {
+  await supabase.auth.signOut({ scope: 'local' }).catch(() => undefined);
+
+  const { pathname, search } = window.location;
+  if (pathname === '/login') return;
+  window.location.assign(`/login?redirect=${encodeURIComponent(pathname + search)}`);
+};
+
+// Refresh the session once on 401 and replay the request, then normalize
+// every remaining failure into a typed ApiError (see ./apiErrors)
+api.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const config = axios.isAxiosError(error) ? (error.config as RetryableRequestConfig | undefined) : undefined;
+
+    // Only signed-in requests can be rescued by a refresh
+    if (
+      axios.isAxiosError(error) &&
+      error.response?.status === 401 &&
+      config &&
+      !config._retry &&
+      config.headers.Authorization
+    ) {
+      config._retry = true;
+      const accessToken = await refreshAccessToken();
+      if (accessToken) {
+        config.headers.Authorization = `Bearer ${accessToken}`;
+        return api(config);
+      }
+      await redirectToLogin();
+    }
+
+    return Promise.reject(toApiError(error));
+  }
+);
+
 export interface TaleChoice {
   id: string;
   title: string | null;
   votes: number;
   previewText: string;
+  // Whether the signed-in reader has voted for this choice
+  hasVoted?: boolean;
+  // Number of branches continuing from this choice
+  childCount?: number;
 }
 
 export interface TaleResponse {
@@ -49,13 +113,37 @@ export interface TaleResponse {
 
 export const fetchTale = async (id: string): Promise<TaleResponse> => {
   const response = await api.get<TaleResponse>(`/Tales/${id}`);
+  // Persist every tale we read so it can be reopened offline
+  await cacheTale(response.data);
   return response.data;
 };
 
+// Just enough of a tale for a hover card. Unlike fetchTale it isn't counted as
+// a visit and isn't written to the offline cache.
+export interface TalePreview {
+  id: string;
+  title: string | null;
+  contentPreview: string;
+  authorName: string | null;
+  createdAt: string;
+  votes: number;
+}
+
+export const getTalePreview = async (id: string): Promise<TalePreview> => {
+  const response = await api.get<TalePreview>(`/Tales/${id}/preview`);
+  return response.data;
+};
+
+// 'unexplored' lists choices that nobody has continued yet (no children)
+export type ChoiceSortOption = 'votes' | 'newest' | 'oldest' | 'unexplored';
+
 export interface GetTaleChoicesParams {
   taleId: string;
   page?: number;
   size?: number;
+  sort?: ChoiceSortOption;
+  // Only choices written by authors the signed-in reader follows
+  followedOnly?: boolean;
 }
 
 export interface PaginatedChoicesResponse {
@@ -64,11 +152,20 @@ export interface PaginatedChoicesResponse {
   size: number;
   totalCount: number;
   hasNextPage: boolean;
+  // The sort and filter the server applied
+  sort: ChoiceSortOption;
+  followedOnly: boolean;
 }
 
-export const getTaleChoices = async ({ taleId, page = 1, size = 10 }: GetTaleChoicesParams): Promise<PaginatedChoicesResponse> => {
+export const getTaleChoices = async ({
+  taleId,
+  page = 1,
+  size = 10,
+  sort = 'votes',
+  followedOnly = false,
+}: GetTaleChoicesParams): Promise<PaginatedChoicesResponse> => {
   const response = await api.get<PaginatedChoicesResponse>(`/Tales/${taleId}/choices`, {
-    params: { page, size },
+    params: { page, size, sort, followedOnly },
   });
   return response.data;
 };
@@ -140,6 +237,10 @@ export const voteForTale = async (taleId: string): Promise<void> => {
   await api.post(`/tales/${taleId}/vote`);
 };
 
+export const unvoteForTale = async (taleId: string): Promise<void> => {
+  await api.delete(`/tales/${taleId}/vote`);
+};
+
 // Story Map types for the graph visualization
 export type StoryMapNodeType = 'ROOT' | 'BRANCH' | 'LEAF';
 
@@ -148,6 +249,12 @@ export interface StoryMapNode {
   label: string;
   type: StoryMapNodeType;
   isDeleted: boolean;
+  // Total number of children, including any not present in a depth-limited map
+  childCount?: number;
+  // Tale details for hover cards and colouring; missing from maps cached by older versions
+  authorName?: string | null;
+  votes?: number;
+  createdAt?: string;
 }
 
 export interface StoryMapEdge {
@@ -163,9 +270,61 @@ export interface StoryMapResponse {
 
 export const getStoryMap = async (id: string): Promise<StoryMapResponse> => {
   const response = await api.get<StoryMapResponse>(`/Tales/${id}/map`);
+  await cacheStoryMap(id, response.data);
+  return response.data;
+};
+
+// Levels of descendants loaded per story map request. Windows are persisted
+// per tale for offline use, so every caller should ask for the same depth.
+export const STORY_MAP_WINDOW_DEPTH = 3;
+
+export interface GetStoryMapWindowParams {
+  taleId: string;
+  depth?: number;
+}
+
+// Depth-limited map around a tale: the full chain of ancestors back to the root
+// with each ancestor's children (so the golden path stays exact), plus descendants
+// of the tale up to `depth` levels down. Nodes whose childCount exceeds their
+// edges in the response are the frontier that can be expanded later.
+export const getStoryMapWindow = async ({ taleId, depth = STORY_MAP_WINDOW_DEPTH }: GetStoryMapWindowParams): Promise<StoryMapResponse> => {
+  const response = await api.get<StoryMapResponse>(`/Tales/${taleId}/map`, {
+    params: { depth },
+  });
+  await cacheStoryMap(taleId, response.data);
+  return response.data;
+};
+
+export interface StoryMapNodeAnalytics {
+  taleId: string;
+  // Times readers opened the tale
+  visits: number;
+  // Most recent read, vote or new branch on the tale
+  lastActivityAt: string | null;
+}
+
+export interface StoryMapAnalyticsResponse {
+  nodes: StoryMapNodeAnalytics[];
+}
+
+// Reader traffic and activity for every tale in the story containing `taleId`
+export const getStoryMapAnalytics = async (taleId: string): Promise<StoryMapAnalyticsResponse> => {
+  const response = await api.get<StoryMapAnalyticsResponse>(`/Tales/${taleId}/map/analytics`);
   return response.data;
 };
 
+// Prefetches (and thereby persists) every chapter from the root down to the
+// given tale so the whole branch can be read without a connection.
+// Returns the number of chapters saved.
+export const saveBranchForOffline = async (taleId: string): Promise<number> => {
+  // Only the ancestors are fetched below, but the window is also what the reader
+  // falls back to offline, so it must match the one the reader saves
+  const map = await getStoryMapWindow({ taleId });
+  const path = getPathToTale(map.edges, taleId);
+  await Promise.all(path.map((id) => fetchTale(id)));
+  return path.length;
+};
+
 // Profile types
 export interface TaleSummary {
   id: string;
@@ -188,6 +347,38 @@ export const getUserProfile = async (): Promise<UserProfile> => {
   return response.data;
 };
 
+// Public profile types
+export interface PublicUserProfile {
+  id: string;
+  displayName: string;
+  bio: string | null;
+  avatarStyle: string;
+  taleCount: number;
+  voteCount: number;
+  joinedDate: string;
+}
+
+export const getPublicUserProfile = async (identifier: string): Promise<PublicUserProfile> => {
+  const response = await api.get<PublicUserProfile>(`/api/Users/${identifier}`);
+  return response.data;
+};
+
+export type UserTalesSortOption = 'recent' | 'oldest' | 'votes';
+
+export interface GetUserTalesParams {
+  userId: string;
+  page?: number;
+  size?: number;
+  sort?: UserTalesSortOption;
+}
+
+export const getUserTales = async ({ userId, page = 1, size = 9, sort = 'recent' }: GetUserTalesParams): Promise<PaginatedResponse<TaleSummary>> => {
+  const response = await api.get<PaginatedResponse<TaleSummary>>(`/api/Users/${userId}/tales`, {
+    params: { page, size, sort },
+  });
+  return response.data;
+};
+
 export interface UpdateTaleRequest {
   id: string;
   content: string;
@@ -212,7 +403,7 @@ export const deleteTale = async (id: string): Promise<DeleteTaleResult> => {
     await api.delete(`/api/tales/${id}`);
     return { success: true };
   } catch (error) {
-    if (axios.isAxiosError(error) && error.response?.status === 409) {
+    if (error instanceof ConflictError) {
       return { 
         success: false, 
         hasBranches: true, 
@@ -242,8 +433,13 @@ export const searchTales = async (query: string, limit: number = 10): Promise<Se
 };
 
 // Notification types and API
+// NEW_BRANCH: someone continued one of your chapters; VOTE_RECEIVED: a vote on
+// one of your chapters; MILESTONE: a chapter or story reached a vote/read threshold
+export type NotificationType = 'NEW_BRANCH' | 'VOTE_RECEIVED' | 'MILESTONE';
+
 export interface Notification {
   id: string;
+  type: NotificationType;
   message: string;
   relatedTaleId: string;
   createdAt: string;
@@ -255,6 +451,109 @@ export const getNotifications = async (): Promise<Notification[]> => {
   return response.data;
 };
 
+export interface GetNotificationsPageParams {
+  page?: number;
+  size?: number;
+  // Omit for every type
+  type?: NotificationType;
+  unreadOnly?: boolean;
+}
+
+export const getNotificationsPage = async ({
+  page = 1,
+  size = 20,
+  type,
+  unreadOnly = false,
+}: GetNotificationsPageParams = {}): Promise<PaginatedResponse<Notification>> => {
+  const response = await api.get<PaginatedResponse<Notification>>('/api/notifications/paged', {
+    params: { page, size, type, unreadOnly },
+  });
+  return response.data;
+};
+
 export const markNotificationRead = async (id: string): Promise<void> => {
   await api.post(`/api/notifications/${id}/read`);
 };
+
+export const markAllNotificationsRead = async (): Promise<void> => {
+  await api.post('/api/notifications/read-all');
+};
+
+export const deleteNotification = async (id: string): Promise<void> => {
+  await api.delete(`/api/notifications/${id}`);
+};
+
+// Clears out everything already read, or only read notifications of one type
+export const deleteReadNotifications = async (type?: NotificationType): Promise<void> => {
+  await api.delete('/api/notifications/read', { params: { type } });
+};
+
+// Notification preferences
+// Each kind can show up in the bell, in the email digest, both or neither
+export interface NotificationDeliveryPreference {
+  inApp: boolean;
+  digest: boolean;
+}
+
+export type DigestFrequency = 'DAILY' | 'WEEKLY';
+
+// Muting is per story, so it is keyed by the root tale
+export interface MutedStory {
+  rootTaleId: string;
+  title: string;
+}
+
+export interface NotificationPreferences {
+  delivery: Record<NotificationType, NotificationDeliveryPreference>;
+  digestFrequency: DigestFrequency;
+  mutedStories: MutedStory[];
+}
+
+export interface UpdateNotificationPreferencesRequest {
+  delivery?: Partial<Record<NotificationType, NotificationDeliveryPreference>>;
+  digestFrequency?: DigestFrequency;
+}
+
+export const getNotificationPreferences = async (): Promise<NotificationPreferences> => {
+  const response = await api.get<NotificationPreferences>('/api/notifications/preferences');
+  return response.data;
+};
+
+export const updateNotificationPreferences = async (
+  request: UpdateNotificationPreferencesRequest
+): Promise<NotificationPreferences> => {
+  const response = await api.put<NotificationPreferences>('/api/notifications/preferences', request);
+  return response.data;
+};
+
+export const muteStory = async (rootTaleId: string): Promise<void> => {
+  await api.post(`/api/notifications/muted-stories/${rootTaleId}`);
+};
+
+export const unmuteStory = async (rootTaleId: string): Promise<void> => {
+  await api.delete(`/api/notifications/muted-stories/${rootTaleId}`);
+};
+
+// Web push
+// Mirrors PushSubscription.toJSON(), which is what the API stores
+export interface PushSubscriptionRequest {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+// Server's VAPID public key, needed to create a browser push subscription
+export const getPushPublicKey = async (): Promise<string> => {
+  const response = await api.get<{ publicKey: string }>('/api/push/public-key');
+  return response.data.publicKey;
+};
+
+export const registerPushSubscription = async (subscription: PushSubscriptionRequest): Promise<void> => {
+  await api.post('/api/push/subscriptions', subscription);
+};
+
+export const unregisterPushSubscription = async (endpoint: string): Promise<void> => {
+  await api.delete('/api/push/subscriptions', { data: { endpoint } });
+};
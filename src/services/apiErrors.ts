@@ -0,0 +1,149 @@
+import axios from 'axios';
+
+// Typed errors produced by the API client's response interceptor.
+// Components can branch on the class (e.g. `instanceof NotFoundError`)
+// and every message is safe to show to the reader as-is.
+
+export class ApiError extends Error {
+  status: number | null;
+
+  constructor(message: string, status: number | null = null, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = 'We couldn\'t find what you were looking for.', options?: ErrorOptions) {
+    super(message, 404, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message = 'This change conflicts with the current state of the story.', options?: ErrorOptions) {
+    super(message, 409, options);
+    this.name = 'ConflictError';
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = 'Please sign in to continue.', status = 401, options?: ErrorOptions) {
+    super(message, status, options);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  // Seconds until the server accepts requests again, when it told us
+  retryAfter: number | null;
+
+  constructor(retryAfter: number | null = null, options?: ErrorOptions) {
+    super(
+      retryAfter
+        ? `You're doing that too often. Please try again in ${retryAfter} seconds.`
+        : 'You\'re doing that too often. Please wait a moment and try again.',
+      429,
+      options
+    );
+    this.name = 'RateLimitedError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class ValidationError extends ApiError {
+  // Field name (camelCase) -> messages for that field
+  fieldErrors: Record<string, string[]>;
+
+  constructor(message: string, fieldErrors: Record<string, string[]> = {}, options?: ErrorOptions) {
+    super(message, 400, options);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = 'Unable to reach VoTales. Check your connection and try again.', options?: ErrorOptions) {
+    super(message, null, options);
+    this.name = 'NetworkError';
+  }
+}
+
+// Shape of the error bodies returned by the API (ASP.NET ProblemDetails or a plain message)
+interface ErrorResponseBody {
+  title?: string;
+  detail?: string;
+  message?: string;
+  errors?: Record<string, string[] | string>;
+}
+
+const toCamelCase = (field: string) =>
+  field.length > 0 ? field.charAt(0).toLowerCase() + field.slice(1) : field;
+
+const getServerMessage = (body: ErrorResponseBody | string | undefined): string | undefined => {
+  if (!body) return undefined;
+  if (typeof body === 'string') return body.trim() || undefined;
+  return body.detail || body.message || body.title;
+};
+
+const parseRetryAfter = (header: unknown): number | null => {
+  const seconds = Number(header);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : null;
+};
+
+// Converts anything thrown by axios into the matching ApiError subclass
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (!axios.isAxiosError(error)) {
+    return new ApiError(error instanceof Error ? error.message : 'Something went wrong.', null, { cause: error });
+  }
+
+  if (!error.response) {
+    return new NetworkError(undefined, { cause: error });
+  }
+
+  const { status, data, headers } = error.response;
+  const body = data as ErrorResponseBody | string | undefined;
+  const serverMessage = getServerMessage(body);
+  const options = { cause: error };
+
+  switch (status) {
+    case 400:
+    case 422: {
+      const fieldErrors: Record<string, string[]> = {};
+      if (body && typeof body === 'object' && body.errors) {
+        Object.entries(body.errors).forEach(([field, messages]) => {
+          fieldErrors[toCamelCase(field)] = Array.isArray(messages) ? messages : [messages];
+        });
+      }
+      return new ValidationError(serverMessage || 'Some of the details you entered are invalid.', fieldErrors, options);
+    }
+    case 401:
+    case 403:
+      return new UnauthorizedError(
+        status === 403 ? 'You don\'t have permission to do that.' : undefined,
+        status,
+        options
+      );
+    case 404:
+      return new NotFoundError(undefined, options);
+    case 409:
+      return new ConflictError(serverMessage, options);
+    case 429:
+      return new RateLimitedError(parseRetryAfter(headers['retry-after']), options);
+    default:
+      return new ApiError(
+        status >= 500 ? 'The server ran into a problem. Please try again shortly.' : serverMessage || 'Something went wrong.',
+        status,
+        options
+      );
+  }
+};
+
+// Returns a message suitable for display, falling back when the error is not one of ours
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError) return error.message;
+  return fallback;
+};